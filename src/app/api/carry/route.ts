@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { priceStore } from '@/lib/price-store';
+import { calculateCarry } from '@/lib/carry';
+
+//cash-and-carry opportunities (long spot, short perp) for a monitored ticker
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const ticker = searchParams.get('ticker');
+
+    if (!ticker) {
+      return NextResponse.json(
+        { error: 'Ticker symbol is required' },
+        { status: 400 }
+      );
+    }
+
+    const upperTicker = ticker.toUpperCase();
+    return NextResponse.json({
+      ticker: upperTicker,
+      opportunities: calculateCarry(upperTicker, priceStore.getPrices(upperTicker))
+    });
+
+  } catch (error) {
+    console.error('Carry calculation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to calculate carry' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { feeModel } from '@/lib/fees';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const exchange = searchParams.get('exchange');
+
+    const response: Record<string, unknown> = {
+      notionalUsd: feeModel.getNotional(),
+    };
+
+    if (exchange) {
+      response.exchange = exchange;
+      response.spot = feeModel.getExchangeFee(exchange, 'spot');
+      response.futures = feeModel.getExchangeFee(exchange, 'futures');
+    }
+
+    return NextResponse.json(response);
+
+  } catch (error) {
+    console.error('Fee schedule error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get fee schedule' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { exchangeFee, poolFee, withdrawalFee, notionalUsd } = await request.json();
+
+    if (exchangeFee) {
+      const { exchange, marketType, maker, taker } = exchangeFee;
+      if (!exchange || !['spot', 'futures'].includes(marketType)) {
+        return NextResponse.json(
+          { error: 'exchangeFee requires exchange and marketType (spot|futures)' },
+          { status: 400 }
+        );
+      }
+      feeModel.setExchangeFee(exchange, marketType, { maker: Number(maker), taker: Number(taker) });
+    }
+
+    if (poolFee) {
+      if (!poolFee.pool) {
+        return NextResponse.json({ error: 'poolFee requires pool' }, { status: 400 });
+      }
+      feeModel.setPoolFee(poolFee.pool, Number(poolFee.feePercent));
+    }
+
+    if (withdrawalFee) {
+      const { ticker, exchange, network, fee } = withdrawalFee;
+      if (!ticker || !exchange || !network) {
+        return NextResponse.json(
+          { error: 'withdrawalFee requires ticker, exchange and network' },
+          { status: 400 }
+        );
+      }
+      feeModel.setWithdrawalFee(ticker.toUpperCase(), exchange, network, Number(fee));
+    }
+
+    if (notionalUsd !== undefined) {
+      feeModel.setNotional(Number(notionalUsd));
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Fee update error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update fees' },
+      { status: 500 }
+    );
+  }
+}
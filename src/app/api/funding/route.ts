@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { priceStore } from '@/lib/price-store';
+import { scanFunding } from '@/lib/funding-scanner';
+
+//perp pairs ranked by funding differential, for one ticker or every monitored one
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const ticker = searchParams.get('ticker');
+
+    const tickers = ticker ? [ticker.toUpperCase()] : priceStore.getMonitoredTickers();
+    const differentials = tickers
+      .flatMap(t => scanFunding(t, priceStore.getPrices(t)))
+      .sort((a, b) => b.differentialPercent - a.differentialPercent);
+
+    return NextResponse.json({ tickers, differentials });
+
+  } catch (error) {
+    console.error('Funding scan error:', error);
+    return NextResponse.json(
+      { error: 'Failed to scan funding rates' },
+      { status: 500 }
+    );
+  }
+}
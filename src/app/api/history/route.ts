@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { historyStore, HistoryResolution } from '@/lib/history-store';
+import { priceStore } from '@/lib/price-store';
+import { feeModel } from '@/lib/fees';
+
+const RESOLUTIONS: HistoryResolution[] = ['raw', '1s', '1m'];
+const DEFAULT_RANGE = 60 * 60 * 1000;
+
+//epoch milliseconds or anything Date.parse understands (ISO 8601)
+function parseTime(value: string | null): number | null {
+  if (!value) return null;
+  const numeric = Number(value);
+  if (Number.isFinite(numeric)) return numeric;
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? NaN : parsed;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const ticker = searchParams.get('ticker');
+
+    if (!ticker) {
+      return NextResponse.json(
+        { error: 'Ticker symbol is required' },
+        { status: 400 }
+      );
+    }
+
+    const to = parseTime(searchParams.get('to')) ?? Date.now();
+    const from = parseTime(searchParams.get('from')) ?? to - DEFAULT_RANGE;
+
+    if (Number.isNaN(from) || Number.isNaN(to) || from > to) {
+      return NextResponse.json(
+        { error: 'from and to must be timestamps (ms or ISO 8601) with from <= to' },
+        { status: 400 }
+      );
+    }
+
+    //no resolution: finest one whose retention still covers `from`
+    const requested = searchParams.get('resolution');
+    if (requested && requested !== 'auto' && !RESOLUTIONS.includes(requested as HistoryResolution)) {
+      return NextResponse.json(
+        { error: `resolution must be one of auto, ${RESOLUTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    const resolution =
+      !requested || requested === 'auto'
+        ? historyStore.pickResolution(from)
+        : (requested as HistoryResolution);
+
+    const upperTicker = ticker.toUpperCase();
+    const pair = searchParams.get('pair') || undefined;
+    const history = historyStore.query(upperTicker, from, to, resolution, {
+      exchange: searchParams.get('exchange') || undefined,
+      pair
+    });
+
+    //current fees for the pair, so callers can compare gross spread against threshold + fees
+    let feePercent: number | undefined;
+    if (pair) {
+      const [buyKey, sellKey] = pair.split('->');
+      const prices = priceStore.getPrices(upperTicker);
+      const buyFrom = prices.get(buyKey);
+      const sellTo = prices.get(sellKey);
+      if (buyFrom && sellTo) {
+        feePercent = feeModel.estimate(upperTicker, buyFrom, sellTo, buyFrom.ask ?? buyFrom.price).totalPercent;
+      }
+    }
+
+    return NextResponse.json({ ...history, feePercent });
+
+  } catch (error) {
+    console.error('History query error:', error);
+    return NextResponse.json(
+      { error: 'Failed to query history' },
+      { status: 500 }
+    );
+  }
+}
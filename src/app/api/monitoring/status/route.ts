@@ -2,6 +2,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { connectionManager } from '@/lib/connection-manager';
 import { priceStore } from '@/lib/price-store';
+import { dexPriceFetcher } from '@/lib/dex/price-fetcher';
+import { tokenDiscovery } from '@/lib/token-discovery';
 
 export async function GET(request: NextRequest) {
   try {
@@ -13,7 +15,9 @@ export async function GET(request: NextRequest) {
     
     let response: any = {
       ...monitoringInfo,
-      health: healthCheck
+      health: healthCheck,
+      nativePrices: dexPriceFetcher.getNativePrices(),
+      rpc: dexPriceFetcher.getRpcHealth()
     };
     
     if (ticker) {
@@ -23,7 +27,8 @@ export async function GET(request: NextRequest) {
         ticker: upperTicker,
         connections: monitoringInfo.connections[upperTicker] || [],
         prices: Object.fromEntries(priceStore.getPrices(upperTicker)),
-        opportunities: priceStore.getOpportunities(upperTicker)
+        opportunities: priceStore.getOpportunities(upperTicker),
+        assetCheck: tokenDiscovery.getAssetCheck(upperTicker)
       };
     }
     
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { opportunityTracker } from '@/lib/opportunity-tracker';
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 5000;
+
+//open runs, the closed-opportunity log and per-route duration stats
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const ticker = searchParams.get('ticker')?.toUpperCase() || undefined;
+    const limitParam = searchParams.get('limit');
+    const limit = limitParam ? Number(limitParam) : DEFAULT_LIMIT;
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return NextResponse.json(
+        { error: `limit must be an integer between 1 and ${MAX_LIMIT}` },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      ticker,
+      open: opportunityTracker.getOpen(ticker),
+      closed: opportunityTracker.getClosed(ticker, limit),
+      routes: opportunityTracker.getRouteStats(ticker)
+    });
+
+  } catch (error) {
+    console.error('Opportunity log error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get opportunity log' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,106 @@
+import { NextRequest } from 'next/server';
+import { connectionManager } from '@/lib/connection-manager';
+import { priceStore } from '@/lib/price-store';
+import { opportunityTracker } from '@/lib/opportunity-tracker';
+
+export const dynamic = 'force-dynamic';
+
+//comment frame that keeps proxies from closing an idle stream
+const HEARTBEAT_INTERVAL = 15000;
+
+//events: price { ticker, price }, status (ConnectionStatus), opportunities { ticker, opportunities },
+//opportunity (OpportunityEvent: opened / updated / closed)
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const tickerParam = searchParams.get('ticker');
+
+  //?ticker=BTC,ETH limits the stream, no param streams everything
+  const tickers = tickerParam
+    ? new Set(tickerParam.split(',').map(t => t.trim().toUpperCase()).filter(Boolean))
+    : null;
+  const matches = (ticker: string) => !tickers || tickers.has(ticker.toUpperCase());
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      const send = (event: string, data: unknown) => {
+        write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+
+      //current state first so a new client does not wait for the next change
+      for (const ticker of priceStore.getMonitoredTickers()) {
+        if (!matches(ticker)) continue;
+        for (const price of priceStore.getPrices(ticker).values()) {
+          send('price', { ticker, price });
+        }
+        send('opportunities', { ticker, opportunities: priceStore.getOpportunities(ticker) });
+      }
+      for (const status of connectionManager.getConnectionStatus()) {
+        if (matches(status.ticker)) send('status', status);
+      }
+
+      const unsubscribePrices = priceStore.onPriceUpdate((ticker, price) => {
+        if (matches(ticker)) send('price', { ticker, price });
+      });
+
+      const unsubscribeOpportunities = priceStore.subscribeAll((ticker, opportunities) => {
+        if (matches(ticker)) send('opportunities', { ticker, opportunities });
+      });
+
+      const unsubscribeStatus = connectionManager.onStatusUpdate(status => {
+        if (matches(status.ticker)) send('status', status);
+      });
+
+      const unsubscribeLifecycle = opportunityTracker.onEvent(event => {
+        if (matches(event.opportunity.ticker)) send('opportunity', event);
+      });
+
+      const heartbeat = setInterval(() => write(': ping\n\n'), HEARTBEAT_INTERVAL);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+
+        clearInterval(heartbeat);
+        unsubscribePrices();
+        unsubscribeOpportunities();
+        unsubscribeStatus();
+        unsubscribeLifecycle();
+
+        try {
+          controller.close();
+        } catch {
+          //already closed by the client
+        }
+      };
+
+      request.signal.addEventListener('abort', () => cleanup());
+    },
+
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
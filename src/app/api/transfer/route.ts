@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { transferModel } from '@/lib/transfer-time';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const exchange = searchParams.get('exchange');
+    const network = searchParams.get('network');
+
+    if (!exchange) {
+      return NextResponse.json(
+        { error: 'Exchange is required' },
+        { status: 400 }
+      );
+    }
+
+    const response: Record<string, unknown> = {
+      exchange,
+      processingSeconds: transferModel.getProcessingSeconds(exchange),
+    };
+
+    if (network) {
+      response.network = network;
+      response.confirmations = transferModel.getConfirmations(exchange, network);
+    }
+
+    return NextResponse.json(response);
+
+  } catch (error) {
+    console.error('Transfer model error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get transfer model' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { processingSeconds, confirmations } = await request.json();
+
+    if (processingSeconds) {
+      const { exchange, seconds } = processingSeconds;
+      if (!exchange || !(Number(seconds) >= 0)) {
+        return NextResponse.json(
+          { error: 'processingSeconds requires exchange and non-negative seconds' },
+          { status: 400 }
+        );
+      }
+      transferModel.setProcessingSeconds(exchange, Number(seconds));
+    }
+
+    if (confirmations) {
+      const { exchange, network, count } = confirmations;
+      if (!exchange || !network || !(Number(count) >= 0)) {
+        return NextResponse.json(
+          { error: 'confirmations requires exchange, network and non-negative count' },
+          { status: 400 }
+        );
+      }
+      transferModel.setConfirmations(exchange, network, Number(count));
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Transfer model update error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update transfer model' },
+      { status: 500 }
+    );
+  }
+}
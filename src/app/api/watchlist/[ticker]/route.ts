@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectionManager } from '@/lib/connection-manager';
+import { parseTokenConfig, watchlistStore } from '@/lib/watchlist';
+
+interface RouteContext {
+  params: Promise<{ ticker: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { ticker } = await params;
+    const token = await watchlistStore.get(ticker);
+
+    if (!token) {
+      return NextResponse.json(
+        { error: `${ticker.toUpperCase()} is not on the watchlist` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ token });
+
+  } catch (error) {
+    console.error('Watchlist read error:', error);
+    return NextResponse.json(
+      { error: 'Failed to read watchlist entry' },
+      { status: 500 }
+    );
+  }
+}
+
+//resume monitoring a saved token from its watchlist entry, e.g. after Stop All
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { ticker } = await params;
+    const token = await watchlistStore.get(ticker);
+
+    if (!token) {
+      return NextResponse.json(
+        { error: `${ticker.toUpperCase()} is not on the watchlist` },
+        { status: 404 }
+      );
+    }
+
+    if (!connectionManager.getMonitoredTickers().includes(token.ticker)) {
+      await connectionManager.startMonitoring(token);
+    }
+
+    return NextResponse.json({ success: true, token });
+
+  } catch (error) {
+    console.error('Watchlist resume error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to resume token' },
+      { status: 500 }
+    );
+  }
+}
+
+//replace a token's config and restart its monitoring with it
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { ticker } = await params;
+    const body = await request.json();
+    const { config, error } = parseTokenConfig({ ...body, ticker });
+
+    if (!config) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    if (!(await watchlistStore.get(config.ticker))) {
+      return NextResponse.json(
+        { error: `${config.ticker} is not on the watchlist` },
+        { status: 404 }
+      );
+    }
+
+    await connectionManager.stopMonitoring(config.ticker);
+    await connectionManager.startMonitoring(config);
+    await watchlistStore.save(config);
+
+    return NextResponse.json({ success: true, token: config });
+
+  } catch (error) {
+    console.error('Watchlist update error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update token' },
+      { status: 500 }
+    );
+  }
+}
+
+//stop monitoring and drop the token from the watchlist
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { ticker } = await params;
+    const upperTicker = ticker.toUpperCase();
+
+    const removed = await watchlistStore.remove(upperTicker);
+    await connectionManager.stopMonitoring(upperTicker);
+
+    if (!removed) {
+      return NextResponse.json(
+        { error: `${upperTicker} is not on the watchlist` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: `${upperTicker} removed from watchlist` });
+
+  } catch (error) {
+    console.error('Watchlist remove error:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove token' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectionManager } from '@/lib/connection-manager';
+import { parseTokenConfig, watchlistStore } from '@/lib/watchlist';
+
+export async function GET() {
+  try {
+    const tokens = await watchlistStore.list();
+    const monitored = connectionManager.getMonitoredTickers();
+
+    return NextResponse.json({
+      tokens: tokens.map(token => ({ ...token, monitoring: monitored.includes(token.ticker) }))
+    });
+
+  } catch (error) {
+    console.error('Watchlist read error:', error);
+    return NextResponse.json(
+      { error: 'Failed to read watchlist' },
+      { status: 500 }
+    );
+  }
+}
+
+//add a token to the watchlist and start monitoring it
+export async function POST(request: NextRequest) {
+  try {
+    const { config, error } = parseTokenConfig(await request.json());
+
+    if (!config) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    if (await watchlistStore.get(config.ticker)) {
+      return NextResponse.json(
+        { error: `${config.ticker} is already on the watchlist` },
+        { status: 409 }
+      );
+    }
+
+    await connectionManager.startMonitoring(config);
+    await watchlistStore.save(config);
+
+    return NextResponse.json({ success: true, token: config }, { status: 201 });
+
+  } catch (error) {
+    console.error('Watchlist add error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to add token' },
+      { status: 500 }
+    );
+  }
+}
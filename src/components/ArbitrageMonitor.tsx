@@ -1,43 +1,48 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { ArbitrageOpportunity } from '@/lib/types';
-import { priceStore } from '@/lib/price-store';
+import { useState, useEffect, useRef } from 'react';
+import { ArbitrageOpportunity, TransferStatus } from '@/lib/types';
+import { useMarketStream } from '@/hooks/use-market-stream';
 
 interface ArbitrageMonitorProps {
   ticker: string;
 }
 
+const TRANSFER_LABELS: Record<TransferStatus, { label: string; className: string }> = {
+  'transferable': { label: 'Transferable', className: 'text-green-300' },
+  'deposit-suspended': { label: 'Deposits suspended', className: 'text-red-300' },
+  'withdraw-suspended': { label: 'Withdrawals suspended', className: 'text-red-300' },
+  'no-common-network': { label: 'No common network', className: 'text-red-300' },
+  'unknown': { label: 'Transfer status unknown', className: 'text-gray-400' },
+};
+
 export function ArbitrageMonitor({ ticker }: ArbitrageMonitorProps) {
-  const [opportunities, setOpportunities] = useState<ArbitrageOpportunity[]>([]);
+  const { opportunities: allOpportunities, openRuns, closedRuns } = useMarketStream(ticker);
   const [flashingOpportunity, setFlashingOpportunity] = useState<string | null>(null);
   const [soundEnabled, setSoundEnabled] = useState(false);
+  const [hideBlocked, setHideBlocked] = useState(false);
+  //routes whose token can't be moved between the venues are hidden on request; most venues
+  //don't publish network status, so unknown routes stay listed with their label
+  const opportunities = hideBlocked
+    ? allOpportunities.filter(opp => opp.transferStatus === 'transferable' || opp.transferStatus === 'unknown')
+    : allOpportunities;
+  const previousCount = useRef(0);
   
 
   useEffect(() => {
-    const unsubscribe = priceStore.subscribe(ticker, (tickerName, newOpportunities) => {
-      if (tickerName !== ticker) return;
-
-      const highProfitOpp = newOpportunities.find(opp => opp.profitPercent >= 5);
+    const highProfitOpp = opportunities.find(opp => opp.netProfitPercent >= 5);
 
-      if (highProfitOpp && opportunities.length < newOpportunities.length) {
-        const oppId = `${highProfitOpp.buyFrom.exchange}-${highProfitOpp.sellTo.exchange}`;
-        setFlashingOpportunity(oppId);
-        setTimeout(() => setFlashingOpportunity(null), 1000);
+    if (highProfitOpp && previousCount.current < opportunities.length) {
+      setFlashingOpportunity(highProfitOpp.id);
+      setTimeout(() => setFlashingOpportunity(null), 1000);
 
-        if (soundEnabled) {
-          playNotificationSound();
-        }
+      if (soundEnabled) {
+        playNotificationSound();
       }
+    }
 
-      setOpportunities(newOpportunities);
-    });
-
-    //cleanup
-    return () => {
-      unsubscribe();
-    };
-  }, [ticker, opportunities.length, soundEnabled]);
+    previousCount.current = opportunities.length;
+  }, [opportunities, soundEnabled]);
   
   const playNotificationSound = () => {
     //beep sound
@@ -100,21 +105,58 @@ export function ArbitrageMonitor({ ticker }: ArbitrageMonitorProps) {
     return new Date(timestamp).toLocaleTimeString();
   };
   
+  const formatDuration = (seconds: number): string => {
+    if (seconds < 60) return `${seconds}s`;
+    return `${Math.round(seconds / 60)}m`;
+  };
+  
   const calculatePotentialProfit = (opportunity: ArbitrageOpportunity, investment = 1000): string => {
-    const profit = (investment * opportunity.profitPercent) / 100;
+    const profit = (investment * opportunity.netProfitPercent) / 100;
     return profit.toFixed(2);
   };
   
+  //routes that dropped back under the threshold since the page opened
+  const recentlyClosed = closedRuns.length > 0 && (
+    <div className="bg-neutral-800 rounded-lg p-4 border border-neutral-700">
+      <div className="text-sm font-medium text-gray-300 mb-2">Recently closed</div>
+      <div className="space-y-1 text-xs text-gray-400">
+        {closedRuns.map(run => (
+          <div key={`${run.id}:${run.openedAt}`} className="flex justify-between">
+            <span className="capitalize">
+              {run.buyFrom.replace('-', ' ')} → {run.sellTo.replace('-', ' ')}
+            </span>
+            <span>
+              open {formatDuration(Math.round(run.durationMs / 1000))} · peak{' '}
+              {run.peakNetProfitPercent.toFixed(2)}% · avg {run.averageNetProfitPercent.toFixed(2)}% net
+            </span>
+            <span>{formatTimestamp(run.closedAt ?? run.lastSeenAt)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+  
   if (opportunities.length === 0) {
     return (
-      <div className="bg-neutral-800 rounded-lg p-6 border border-neutral-700">
-        <div className="text-center">
-          <div className="text-4xl mb-2">👀</div>
-          <h3 className="text-lg font-medium text-gray-300 mb-1">Watching for Opportunities</h3>
-          <p className="text-sm text-gray-500">
-            No arbitrage opportunities detected above the threshold
-          </p>
+      <div className="space-y-4">
+        <div className="bg-neutral-800 rounded-lg p-6 border border-neutral-700">
+          <div className="text-center">
+            <div className="text-4xl mb-2">👀</div>
+            <h3 className="text-lg font-medium text-gray-300 mb-1">Watching for Opportunities</h3>
+            <p className="text-sm text-gray-500">
+              No arbitrage opportunities detected above the threshold
+            </p>
+            {hideBlocked && allOpportunities.length > 0 && (
+              <button
+                onClick={() => setHideBlocked(false)}
+                className="mt-3 text-xs text-blue-400 hover:text-blue-300"
+              >
+                Show {allOpportunities.length} blocked route{allOpportunities.length === 1 ? '' : 's'}
+              </button>
+            )}
+          </div>
         </div>
+        {recentlyClosed}
       </div>
     );
   }
@@ -127,6 +169,16 @@ export function ArbitrageMonitor({ ticker }: ArbitrageMonitorProps) {
           🎯 Arbitrage Opportunities ({opportunities.length})
         </h3>
         <div className="flex items-center space-x-2">
+          <button
+            onClick={() => setHideBlocked(!hideBlocked)}
+            className={`px-3 py-1 rounded text-sm transition-colors ${
+              hideBlocked 
+                ? 'bg-blue-600 text-white' 
+                : 'bg-neutral-600 text-gray-300'
+            }`}
+          >
+            Hide blocked transfers
+          </button>
           <button
             onClick={() => setSoundEnabled(!soundEnabled)}
             className={`px-3 py-1 rounded text-sm transition-colors ${
@@ -142,14 +194,13 @@ export function ArbitrageMonitor({ ticker }: ArbitrageMonitorProps) {
       
       {/* OPPORTUNITIES LIST */}
       <div className="grid gap-4">
-        {opportunities.map((opportunity, index) => {
-          const profitLevel = getProfitLevel(opportunity.profitPercent);
-          const oppId = `${opportunity.buyFrom.exchange}-${opportunity.sellTo.exchange}`;
-          const isFlashing = flashingOpportunity === oppId;
+        {opportunities.map(opportunity => {
+          const profitLevel = getProfitLevel(opportunity.netProfitPercent);
+          const isFlashing = flashingOpportunity === opportunity.id;
           
           return (
             <div
-              key={`${oppId}-${index}`}
+              key={opportunity.id}
               className={`opportunity-card ${profitLevel}-profit p-4 rounded-lg border-2 transition-all duration-300 ${
                 getProfitLevelColor(profitLevel)
               } ${isFlashing ? 'flash-profit' : ''}`}
@@ -159,11 +210,36 @@ export function ArbitrageMonitor({ ticker }: ArbitrageMonitorProps) {
                   <span className="text-2xl">{getProfitLevelIcon(profitLevel)}</span>
                   <div>
                     <div className="font-bold text-white text-lg">
-                      {opportunity.profitPercent.toFixed(2)}% Spread
+                      {opportunity.netProfitPercent.toFixed(2)}% Net
+                    </div>
+                    <div className="text-xs text-gray-400">
+                      {opportunity.profitPercent.toFixed(2)}% spread − {opportunity.feesBreakdown.totalPercent.toFixed(2)}% fees
                     </div>
                     <div className="text-sm text-gray-400">
                       {formatTimestamp(opportunity.timestamp)}
+                      {opportunity.indicative && (
+                        <span
+                          className="ml-2 px-1.5 py-0.5 rounded bg-neutral-700 text-xs text-yellow-300"
+                          title="At least one leg has no bid/ask, spread uses last or mid price"
+                        >
+                          Indicative
+                        </span>
+                      )}
+                      {opportunity.basisTrade && (
+                        <span
+                          className="ml-2 px-1.5 py-0.5 rounded bg-neutral-700 text-xs text-blue-300"
+                          title="Spot against perp, closes when the basis converges rather than on transfer"
+                        >
+                          Basis trade
+                        </span>
+                      )}
                     </div>
+                    {openRuns[opportunity.id] && (
+                      <div className="text-xs text-gray-500">
+                        Open {formatDuration(Math.round(openRuns[opportunity.id].durationMs / 1000))} · peak{' '}
+                        {openRuns[opportunity.id].peakNetProfitPercent.toFixed(2)}% net
+                      </div>
+                    )}
                   </div>
                 </div>
                 
@@ -186,7 +262,10 @@ export function ArbitrageMonitor({ ticker }: ArbitrageMonitorProps) {
                       {opportunity.buyFrom.exchange.replace('-', ' ')}
                     </div>
                     <div className="font-mono text-green-400">
-                      ${opportunity.buyFrom.price.toFixed(6)}
+                      ${opportunity.buyPrice.toFixed(6)}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {opportunity.buyFrom.ask !== undefined ? 'Ask' : 'Last'}
                     </div>
                   </div>
                   
@@ -198,12 +277,58 @@ export function ArbitrageMonitor({ ticker }: ArbitrageMonitorProps) {
                       {opportunity.sellTo.exchange.replace('-', ' ')}
                     </div>
                     <div className="font-mono text-red-400">
-                      ${opportunity.sellTo.price.toFixed(6)}
+                      ${opportunity.sellPrice.toFixed(6)}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {opportunity.sellTo.bid !== undefined ? 'Bid' : 'Last'}
                     </div>
                   </div>
                 </div>
               </div>
               
+              {/* FEES */}
+              <div className="mt-2 flex justify-between text-xs text-gray-500">
+                <span>Buy fee {opportunity.feesBreakdown.buyFeePercent.toFixed(3)}%</span>
+                <span>Sell fee {opportunity.feesBreakdown.sellFeePercent.toFixed(3)}%</span>
+                <span>
+                  Withdrawal{' '}
+                  {opportunity.feesBreakdown.withdrawalFee
+                    ? `${opportunity.feesBreakdown.withdrawalFeePercent.toFixed(3)}% (${opportunity.feesBreakdown.withdrawalFee.network})`
+                    : 'n/a'}
+                </span>
+              </div>
+
+              {/* TRANSFER STATUS */}
+              <div className="mt-1 flex justify-between text-xs text-gray-500">
+                <span className={TRANSFER_LABELS[opportunity.transferStatus].className}>
+                  {TRANSFER_LABELS[opportunity.transferStatus].label}
+                </span>
+                {opportunity.estimatedTransferSeconds !== undefined && (
+                  <span>
+                    ~{formatDuration(opportunity.estimatedTransferSeconds)} transfer ·{' '}
+                    {opportunity.profitPerMinutePercent?.toFixed(3)}%/min
+                  </span>
+                )}
+                {opportunity.commonNetworks.length > 0 && (
+                  <span>Networks: {opportunity.commonNetworks.join(', ')}</span>
+                )}
+              </div>
+
+              {/* EXECUTABLE SIZE */}
+              <div className="mt-1 flex justify-between text-xs text-gray-500">
+                {opportunity.executable ? (
+                  <>
+                    <span>Executable {opportunity.executable.quantity.toFixed(4)} tokens</span>
+                    <span>≈ ${opportunity.executable.notional.toFixed(2)}</span>
+                    <span>
+                      VWAP ${opportunity.executable.buyVwap.toFixed(6)} → ${opportunity.executable.sellVwap.toFixed(6)}
+                    </span>
+                  </>
+                ) : (
+                  <span>Executable size n/a (no order book depth)</span>
+                )}
+              </div>
+
               {/* PROFIT CALCULATOR */}
               <div className="mt-3 pt-3 border-t border-neutral-700">
                 <div className="grid grid-cols-3 gap-4 text-center">
@@ -250,9 +375,9 @@ export function ArbitrageMonitor({ ticker }: ArbitrageMonitorProps) {
           </div>
           <div>
             <div className="text-2xl font-bold text-yellow-400">
-              {Math.max(...opportunities.map(o => o.profitPercent)).toFixed(2)}%
+              {Math.max(...opportunities.map(o => o.netProfitPercent)).toFixed(2)}%
             </div>
-            <div className="text-xs text-gray-400">Highest Spread</div>
+            <div className="text-xs text-gray-400">Highest Net Profit</div>
           </div>
           <div>
             <div className="text-2xl font-bold text-blue-400">
@@ -262,12 +387,14 @@ export function ArbitrageMonitor({ ticker }: ArbitrageMonitorProps) {
           </div>
           <div>
             <div className="text-2xl font-bold text-purple-400">
-              {opportunities.filter(o => o.profitPercent >= 5).length}
+              {opportunities.filter(o => o.netProfitPercent >= 5).length}
             </div>
             <div className="text-xs text-gray-400">High Profit (5%+)</div>
           </div>
         </div>
       </div>
+      
+      {recentlyClosed}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,120 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { CarryOpportunity } from '@/lib/types';
+
+interface CarryMonitorProps {
+  ticker: string;
+}
+
+//funding moves slowly, the basis is refreshed on the same cadence
+const REFRESH_INTERVAL = 5000;
+
+const formatPercent = (value?: number, digits = 4): string =>
+  value === undefined ? 'n/a' : `${value >= 0 ? '+' : ''}${value.toFixed(digits)}%`;
+
+const formatCountdown = (time?: number): string => {
+  if (!time) return 'n/a';
+  const diff = Math.max(0, time - Date.now());
+  const hours = Math.floor(diff / 3600000);
+  const minutes = Math.floor((diff % 3600000) / 60000);
+  return `${hours}h ${minutes}m`;
+};
+
+export function CarryMonitor({ ticker }: CarryMonitorProps) {
+  const [opportunities, setOpportunities] = useState<CarryOpportunity[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = () => {
+      fetch(`/api/carry?ticker=${encodeURIComponent(ticker)}`)
+        .then(response => response.json())
+        .then(data => {
+          if (!cancelled) setOpportunities(data.opportunities || []);
+        })
+        .catch(error => console.error('Failed to load carry:', error));
+    };
+
+    load();
+    const interval = setInterval(load, REFRESH_INTERVAL);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [ticker]);
+
+  if (opportunities.length === 0) return null;
+
+  return (
+    <div className="mt-6 space-y-3">
+      {/* HEADER */}
+      <h3 className="text-lg font-semibold text-blue-400">
+        🏦 Cash &amp; Carry ({opportunities.length})
+      </h3>
+
+      {/* CARRY TABLE */}
+      <div className="overflow-x-auto bg-neutral-800 rounded-lg border border-neutral-700">
+        <table className="w-full text-sm">
+          <thead className="text-xs text-gray-400 border-b border-neutral-700">
+            <tr>
+              <th className="px-3 py-2 text-left">Long spot</th>
+              <th className="px-3 py-2 text-left">Short perp</th>
+              <th className="px-3 py-2 text-right">Basis</th>
+              <th className="px-3 py-2 text-right">Funding</th>
+              <th className="px-3 py-2 text-right">Predicted</th>
+              <th className="px-3 py-2 text-right">Funding APR</th>
+              <th className="px-3 py-2 text-right">Next funding</th>
+              <th className="px-3 py-2 text-right">Fees</th>
+              <th className="px-3 py-2 text-right">Expected carry</th>
+            </tr>
+          </thead>
+          <tbody>
+            {opportunities.map(opportunity => (
+              <tr key={opportunity.id} className="border-b border-neutral-700/50 last:border-0">
+                <td className="px-3 py-2 text-white capitalize">
+                  {opportunity.spot.exchange.replace('-', ' ')}
+                  <div className="font-mono text-xs text-green-400">${opportunity.spotPrice.toFixed(6)}</div>
+                </td>
+                <td className="px-3 py-2 text-white capitalize">
+                  {opportunity.perp.exchange.replace('-', ' ')}
+                  {opportunity.sameVenue && <span className="ml-1 text-xs text-gray-500">(same venue)</span>}
+                  <div className="font-mono text-xs text-red-400">${opportunity.perpPrice.toFixed(6)}</div>
+                </td>
+                <td className="px-3 py-2 text-right font-mono">{formatPercent(opportunity.basisPercent, 2)}</td>
+                <td className="px-3 py-2 text-right font-mono">{formatPercent(opportunity.fundingRatePercent)}</td>
+                <td className="px-3 py-2 text-right font-mono text-gray-400">
+                  {formatPercent(opportunity.predictedFundingRatePercent)}
+                </td>
+                <td className="px-3 py-2 text-right font-mono text-gray-400">
+                  {formatPercent(opportunity.annualizedFundingPercent, 1)}
+                </td>
+                <td className="px-3 py-2 text-right text-gray-400">
+                  {formatCountdown(opportunity.nextFundingTime)}
+                  <div className="text-xs text-gray-500">every {opportunity.fundingIntervalHours}h</div>
+                </td>
+                <td className="px-3 py-2 text-right font-mono text-gray-400">{opportunity.feesPercent.toFixed(2)}%</td>
+                <td
+                  className={`px-3 py-2 text-right font-mono font-bold ${
+                    opportunity.expectedCarryPercent > 0 ? 'text-green-400' : 'text-gray-500'
+                  }`}
+                >
+                  {formatPercent(opportunity.expectedCarryPercent, 2)}
+                  {opportunity.indicative && (
+                    <div
+                      className="text-xs font-normal text-yellow-300"
+                      title="At least one leg has no bid/ask, basis uses last or mid price"
+                    >
+                      Indicative
+                    </div>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -1,50 +1,80 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { TokenConfig, ArbitrageOpportunity } from '@/lib/types';
 import { AddTokenForm } from './AddTokenForm';
 import { ArbitrageMonitor } from './ArbitrageMonitor';
 import { PriceCard } from './PriceCard';
-import { connectionManager } from '@/lib/connection-manager';
-import { priceStore } from '@/lib/price-store';
+import { SpreadChart } from './SpreadChart';
+import { CarryMonitor } from './CarryMonitor';
+import { FundingScanner } from './FundingScanner';
+import { MarketStreamProvider, useMarketStream, useMarketStreamAll } from '@/hooks/use-market-stream';
 
 interface MonitoringToken extends TokenConfig {
   id: string;
-  opportunities: ArbitrageOpportunity[];
 }
 
+//monitoring runs on the server, every action goes through the API routes
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function requestJson(url: string, method = 'GET', body?: unknown): Promise<any> {
+  const response = await fetch(url, {
+    method,
+    headers: body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+    body: body !== undefined ? JSON.stringify(body) : undefined
+  });
+  
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Request failed with status ${response.status}`);
+  }
+  return data;
+}
+
+//exchange keys as they appear in the price stream (spot: name, futures: name-futures)
+const getExchangeKeys = (token: TokenConfig): string[] =>
+  token.exchanges.flatMap(exchange =>
+    exchange.markets.map(market => (market === 'futures' ? `${exchange.name}-futures` : exchange.name))
+  );
+
+//one request per token, resolves to the tickers whose request failed
+const runForTokens = async (
+  tokens: TokenConfig[],
+  request: (token: TokenConfig) => Promise<unknown>
+): Promise<string[]> => {
+  const results = await Promise.allSettled(tokens.map(request));
+  return tokens.filter((_, i) => results[i].status === 'rejected').map(token => token.ticker);
+};
+
+const getHighestProfit = (opportunities: ArbitrageOpportunity[]): number => {
+  return opportunities.reduce((max, opp) => Math.max(max, opp.netProfitPercent), 0);
+};
+
 export function Dashboard() {
   const [monitoringTokens, setMonitoringTokens] = useState<MonitoringToken[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  //monitoring halted by Stop All, the watchlist itself is untouched
+  const [isStopped, setIsStopped] = useState(false);
+  
+  //the watchlist lives on the server and survives reloads and restarts
+  useEffect(() => {
+    requestJson('/api/watchlist')
+      .then(({ tokens }: { tokens: (TokenConfig & { monitoring: boolean })[] }) => {
+        setMonitoringTokens(tokens.map(token => ({ ...token, id: token.ticker })));
+        //a server stopped before this reload stays stopped
+        setIsStopped(tokens.length > 0 && tokens.every(token => !token.monitoring));
+      })
+      .catch(error => console.error('Failed to load watchlist:', error));
+  }, []);
   
   const handleAddToken = async (config: TokenConfig) => {
     setIsLoading(true);
     
     try {
-      const tokenId = `${config.ticker}-${Date.now()}`;
-      
-      //start monitoring
-      await connectionManager.startMonitoring(config);
-      
-      //add to local state
-      const newToken: MonitoringToken = {
-        ...config,
-        id: tokenId,
-        opportunities: []
-      };
-      
-      setMonitoringTokens(prev => [...prev, newToken]);
+      //save to the watchlist, the server starts monitoring it
+      const { token }: { token: TokenConfig } = await requestJson('/api/watchlist', 'POST', config);
       
-      //sub to arbitrage opportunities
-      priceStore.subscribe(config.ticker, (ticker, opportunities) => {
-        setMonitoringTokens(prev => 
-          prev.map(token => 
-            token.ticker === ticker 
-              ? { ...token, opportunities }
-              : token
-          )
-        );
-      });
+      //add to local state, prices and opportunities arrive over the stream
+      setMonitoringTokens(prev => [...prev, { ...token, id: token.ticker }]);
       
       console.log(`✅ Started monitoring ${config.ticker}`);
       
@@ -62,8 +92,8 @@ export function Dashboard() {
     if (!token) return;
     
     try {
-      //stop monitoring
-      await connectionManager.stopMonitoring(token.ticker);
+      //stop monitoring and drop it from the watchlist
+      await requestJson(`/api/watchlist/${encodeURIComponent(token.ticker)}`, 'DELETE');
       
       //remove from local state
       setMonitoringTokens(prev => prev.filter(t => t.id !== tokenId));
@@ -78,152 +108,252 @@ export function Dashboard() {
   
 
   const handleEmergencyStop = async () => {
-    if (!confirm('Stop all monitoring? This will disconnect all connections.')) return;
+    if (!confirm('Stop all monitoring? Connections close, the saved watchlist is kept and resumes on restart.')) return;
     
-    try {
-      await connectionManager.emergencyDisconnectAll();
-      setMonitoringTokens([]);
-      console.log('✅ All monitoring stopped');
-    } catch (error) {
-      console.error('Emergency stop failed:', error);
+    const failed = await runForTokens(monitoringTokens, token =>
+      requestJson('/api/monitoring/stop', 'POST', { ticker: token.ticker })
+    );
+    
+    //anything that failed is still running, so Stop All stays available to retry
+    if (failed.length > 0) {
+      alert(`Failed to stop ${failed.join(', ')}`);
+      return;
     }
+    setIsStopped(true);
+    console.log('✅ All monitoring stopped');
   };
   
-
-  const getHighestProfit = (opportunities: ArbitrageOpportunity[]): number => {
-    return opportunities.reduce((max, opp) => Math.max(max, opp.profitPercent), 0);
+  //restarts each token from its saved watchlist entry
+  const handleResumeAll = async () => {
+    const failed = await runForTokens(monitoringTokens, token =>
+      requestJson(`/api/watchlist/${encodeURIComponent(token.ticker)}`, 'POST')
+    );
+    
+    if (failed.length > 0) {
+      alert(`Failed to resume ${failed.join(', ')}`);
+      return;
+    }
+    setIsStopped(false);
+    console.log('✅ All monitoring resumed');
+  };
+  
+  //the only action that erases saved entries in bulk
+  const handleClearWatchlist = async () => {
+    if (!confirm('Clear the watchlist? Every token is stopped and removed from the saved list.')) return;
+    
+    const failed = await runForTokens(monitoringTokens, token =>
+      requestJson(`/api/watchlist/${encodeURIComponent(token.ticker)}`, 'DELETE')
+    );
+    
+    //tokens that failed to delete are still saved, keep showing them
+    setMonitoringTokens(prev => prev.filter(token => failed.includes(token.ticker)));
+    if (failed.length > 0) {
+      alert(`Failed to remove ${failed.join(', ')} from the watchlist`);
+      return;
+    }
+    setIsStopped(false);
+    console.log('✅ Watchlist cleared');
   };
   
   return (
-    <div className="space-y-8">
-      {/* CONTROL PANEL */}
-      <div className="bg-neutral-900 rounded-lg p-6 border border-neutral-700">
-        <h2 className="text-xl font-semibold mb-4 text-green-400">Add New Token</h2>
-        <AddTokenForm onSubmit={handleAddToken} isLoading={isLoading} />
+    <MarketStreamProvider tickers={monitoringTokens.map(token => token.ticker)}>
+      <div className="space-y-8">
+        {/* CONTROL PANEL */}
+        <div className="bg-neutral-900 rounded-lg p-6 border border-neutral-700">
+          <h2 className="text-xl font-semibold mb-4 text-green-400">Add New Token</h2>
+          <AddTokenForm onSubmit={handleAddToken} isLoading={isLoading} />
         
-        {/* EMERGENCY CONTROLS */}
-        {monitoringTokens.length > 0 && (
-          <div className="mt-4 pt-4 border-t border-neutral-700 flex justify-between items-center">
-            <div className="text-sm text-gray-400">
-              Monitoring {monitoringTokens.length} token{monitoringTokens.length !== 1 ? 's' : ''}
-            </div>
-            <button
-              onClick={handleEmergencyStop}
-              className="px-4 py-2 bg-red-600 hover:bg-red-700 rounded-md text-sm font-medium transition-colors"
-            >
-              🚨 Stop All
-            </button>
-          </div>
-        )}
-      </div>
-      
-      {/* MONITORING DASHBOARD */}
-      {monitoringTokens.length === 0 ? (
-        <div className="text-center py-12">
-          <div className="text-6xl mb-4">📈</div>
-          <h3 className="text-xl font-medium text-gray-300 mb-2">No Tokens Monitored</h3>
-          <p className="text-gray-500">Add a token above to start monitoring arbitrage opportunities</p>
-        </div>
-      ) : (
-        <div className="space-y-6">
-          {monitoringTokens.map((token) => (
-            <div key={token.id} className="bg-neutral-900 rounded-lg border border-neutral-700 overflow-hidden">
-              {/* TOKEN HEADER */}
-              <div className="bg-neutral-800 px-6 py-4 border-b border-neutral-700">
-                <div className="flex justify-between items-center">
-                  <div>
-                    <h3 className="text-2xl font-bold text-white">
-                      {token.ticker.toUpperCase()}
-                    </h3>
-                    <div className="flex items-center space-x-4 text-sm text-gray-400 mt-1">
-                      <span>Threshold: {token.thresholdPercent}%</span>
-                      <span>•</span>
-                      <span>{token.exchanges.length} Exchanges</span>
-                      <span>•</span>
-                      <span>{Object.keys(token.dexContracts).length} DEX Chains</span>
-                      {token.opportunities.length > 0 && (
-                        <>
-                          <span>•</span>
-                          <span className="text-green-400 font-medium">
-                            Max Spread: {getHighestProfit(token.opportunities).toFixed(2)}%
-                          </span>
-                        </>
-                      )}
-                    </div>
-                  </div>
+          {/* EMERGENCY CONTROLS */}
+          {monitoringTokens.length > 0 && (
+            <div className="mt-4 pt-4 border-t border-neutral-700 flex justify-between items-center">
+              <div className="text-sm text-gray-400">
+                {isStopped ? 'Stopped' : 'Monitoring'} {monitoringTokens.length} token{monitoringTokens.length !== 1 ? 's' : ''}
+              </div>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={handleClearWatchlist}
+                  className="px-4 py-2 bg-neutral-700 hover:bg-neutral-600 rounded-md text-sm font-medium transition-colors"
+                >
+                  🗑️ Clear Watchlist
+                </button>
+                {isStopped ? (
+                  <button
+                    onClick={handleResumeAll}
+                    className="px-4 py-2 bg-green-600 hover:bg-green-700 rounded-md text-sm font-medium transition-colors"
+                  >
+                    ▶️ Resume All
+                  </button>
+                ) : (
                   <button
-                    onClick={() => handleRemoveToken(token.id)}
+                    onClick={handleEmergencyStop}
                     className="px-4 py-2 bg-red-600 hover:bg-red-700 rounded-md text-sm font-medium transition-colors"
                   >
-                    Stop
+                    🚨 Stop All
                   </button>
-                </div>
-              </div>
-              
-              {/* PRICE CARDS */}
-              <div className="p-6">
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 mb-6">
-                  {/* Exchange Price Cards */}
-                  {token.exchanges.map(exchange => (
-                    <PriceCard
-                      key={exchange}
-                      exchange={exchange}
-                      ticker={token.ticker}
-                    />
-                  ))}
-                  
-                  {/* DEX Price Cards */}
-                  {Object.entries(token.dexContracts).map(([chain, contract]) => 
-                    contract ? (
-                      <PriceCard
-                        key={`${chain}-dex`}
-                        exchange={`${chain}-dex`}
-                        ticker={token.ticker}
-                      />
-                    ) : null
-                  )}
-                </div>
-                
-                {/* ARBITRAGE OPPORTUNITIES */}
-                <ArbitrageMonitor ticker={token.ticker} />
+                )}
               </div>
             </div>
-          ))}
+          )}
         </div>
-      )}
       
-      {/* PERFORMANCE STATS */}
-      {monitoringTokens.length > 0 && (
-        <div className="bg-neutral-900 rounded-lg p-4 border border-neutral-700">
-          <h4 className="text-sm font-medium text-gray-300 mb-2">Performance Stats</h4>
-          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
-            <div>
-              <div className="text-gray-400">Active Connections</div>
-              <div className="text-green-400 font-mono">
-                {connectionManager.getActiveConnectionsCount()}
-              </div>
-            </div>
-            <div>
-              <div className="text-gray-400">Total Opportunities</div>
-              <div className="text-yellow-400 font-mono">
-                {monitoringTokens.reduce((sum, token) => sum + token.opportunities.length, 0)}
-              </div>
-            </div>
-            <div>
-              <div className="text-gray-400">Monitored Tickers</div>
-              <div className="text-blue-400 font-mono">
-                {monitoringTokens.length}
-              </div>
-            </div>
-            <div>
-              <div className="text-gray-400">Update Frequency</div>
-              <div className="text-purple-400 font-mono">
-                Real-time
-              </div>
+        {/* MONITORING DASHBOARD */}
+        {monitoringTokens.length === 0 ? (
+          <div className="text-center py-12">
+            <div className="text-6xl mb-4">📈</div>
+            <h3 className="text-xl font-medium text-gray-300 mb-2">No Tokens Monitored</h3>
+            <p className="text-gray-500">Add a token above to start monitoring arbitrage opportunities</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {monitoringTokens.map((token) => (
+              <MonitoredToken
+                key={token.id}
+                token={token}
+                onRemove={() => handleRemoveToken(token.id)}
+              />
+            ))}
+          </div>
+        )}
+      
+        {/* FUNDING DIFFERENTIALS */}
+        {monitoringTokens.length > 0 && <FundingScanner />}
+      
+        {/* PERFORMANCE STATS */}
+        {monitoringTokens.length > 0 && <PerformanceStats tokenCount={monitoringTokens.length} />}
+      </div>
+    </MarketStreamProvider>
+  );
+}
+
+function PerformanceStats({ tokenCount }: { tokenCount: number }) {
+  const { tickers, connected } = useMarketStreamAll();
+  const streams = Object.values(tickers);
+  
+  const activeConnections = streams.reduce(
+    (sum, stream) => sum + Object.values(stream.statuses).filter(s => s.status === 'connected').length,
+    0
+  );
+  const totalOpportunities = streams.reduce((sum, stream) => sum + stream.opportunities.length, 0);
+  
+  return (
+    <div className="bg-neutral-900 rounded-lg p-4 border border-neutral-700">
+      <h4 className="text-sm font-medium text-gray-300 mb-2">Performance Stats</h4>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+        <div>
+          <div className="text-gray-400">Active Connections</div>
+          <div className="text-green-400 font-mono">
+            {activeConnections}
+          </div>
+        </div>
+        <div>
+          <div className="text-gray-400">Total Opportunities</div>
+          <div className="text-yellow-400 font-mono">
+            {totalOpportunities}
+          </div>
+        </div>
+        <div>
+          <div className="text-gray-400">Monitored Tickers</div>
+          <div className="text-blue-400 font-mono">
+            {tokenCount}
+          </div>
+        </div>
+        <div>
+          <div className="text-gray-400">Update Frequency</div>
+          <div className="text-purple-400 font-mono">
+            {connected ? 'Real-time' : 'Reconnecting...'}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface MonitoredTokenProps {
+  token: MonitoringToken;
+  onRemove: () => void;
+}
+
+function MonitoredToken({ token, onRemove }: MonitoredTokenProps) {
+  const { opportunities } = useMarketStream(token.ticker);
+  
+  return (
+    <div className="bg-neutral-900 rounded-lg border border-neutral-700 overflow-hidden">
+      {/* TOKEN HEADER */}
+      <div className="bg-neutral-800 px-6 py-4 border-b border-neutral-700">
+        <div className="flex justify-between items-center">
+          <div>
+            <h3 className="text-2xl font-bold text-white">
+              {token.ticker.toUpperCase()}
+            </h3>
+            <div className="flex items-center space-x-4 text-sm text-gray-400 mt-1">
+              <span>Threshold: {token.thresholdPercent}%</span>
+              <span>•</span>
+              <span>{token.exchanges.length} Exchanges</span>
+              <span>•</span>
+              <span>{Object.keys(token.dexContracts).length} DEX Chains</span>
+              {opportunities.length > 0 && (
+                <>
+                  <span>•</span>
+                  <span className="text-green-400 font-medium">
+                    Max Net: {getHighestProfit(opportunities).toFixed(2)}%
+                  </span>
+                </>
+              )}
             </div>
           </div>
+          <button
+            onClick={onRemove}
+            className="px-4 py-2 bg-red-600 hover:bg-red-700 rounded-md text-sm font-medium transition-colors"
+          >
+            Stop
+          </button>
         </div>
-      )}
+      </div>
+      
+      {/* PRICE CARDS */}
+      <div className="p-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 mb-6">
+          {/* Exchange Price Cards */}
+          {getExchangeKeys(token).map(exchange => (
+            <PriceCard
+              key={exchange}
+              exchange={exchange}
+              ticker={token.ticker}
+            />
+          ))}
+          
+          {/* DEX Price Cards */}
+          {Object.entries(token.dexContracts).map(([chain, contract]) => 
+            contract ? (
+              <PriceCard
+                key={`${chain}-dex`}
+                exchange={`${chain}-dex`}
+                ticker={token.ticker}
+              />
+            ) : null
+          )}
+        </div>
+        
+        {/* ARBITRAGE OPPORTUNITIES */}
+        <ArbitrageMonitor ticker={token.ticker} />
+
+        {/* CASH AND CARRY */}
+        {token.exchanges.some(exchange => exchange.markets.includes('futures')) && (
+          <CarryMonitor ticker={token.ticker} />
+        )}
+
+        {/* SPREAD HISTORY */}
+        <SpreadChart
+          ticker={token.ticker}
+          venues={[
+            ...getExchangeKeys(token),
+            ...Object.entries(token.dexContracts)
+              .filter(([, contract]) => contract)
+              .map(([chain]) => `${chain}-dex`)
+          ]}
+          thresholdPercent={token.thresholdPercent}
+        />
+      </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,97 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { FundingDifferential } from '@/lib/types';
+
+//rates change a few times per interval at most
+const REFRESH_INTERVAL = 30000;
+const MAX_ROWS = 20;
+
+const formatRate = (value: number): string => `${value >= 0 ? '+' : ''}${value.toFixed(4)}%`;
+
+const formatCountdown = (time?: number): string => {
+  if (!time) return 'n/a';
+  const diff = Math.max(0, time - Date.now());
+  return `${Math.floor(diff / 3600000)}h ${Math.floor((diff % 3600000) / 60000)}m`;
+};
+
+export function FundingScanner() {
+  const [differentials, setDifferentials] = useState<FundingDifferential[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = () => {
+      fetch('/api/funding')
+        .then(response => response.json())
+        .then(data => {
+          if (!cancelled) setDifferentials(data.differentials || []);
+        })
+        .catch(error => console.error('Failed to scan funding:', error));
+    };
+
+    load();
+    const interval = setInterval(load, REFRESH_INTERVAL);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, []);
+
+  if (differentials.length === 0) return null;
+
+  return (
+    <div className="bg-neutral-900 rounded-lg p-4 border border-neutral-700">
+      <h4 className="text-sm font-medium text-gray-300 mb-3">
+        Funding Differentials (long pays less, short receives more)
+      </h4>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="text-xs text-gray-400 border-b border-neutral-700">
+            <tr>
+              <th className="px-3 py-2 text-left">Ticker</th>
+              <th className="px-3 py-2 text-left">Long perp</th>
+              <th className="px-3 py-2 text-left">Short perp</th>
+              <th className="px-3 py-2 text-right">Differential / 8h</th>
+              <th className="px-3 py-2 text-right">APR</th>
+              <th className="px-3 py-2 text-right">Fees</th>
+              <th className="px-3 py-2 text-right">Next funding</th>
+            </tr>
+          </thead>
+          <tbody>
+            {differentials.slice(0, MAX_ROWS).map(differential => (
+              <tr key={differential.id} className="border-b border-neutral-700/50 last:border-0">
+                <td className="px-3 py-2 font-medium text-white">{differential.ticker}</td>
+                <td className="px-3 py-2 capitalize text-gray-300">
+                  {differential.long.exchange.replace('-', ' ')}
+                  <div className="font-mono text-xs text-gray-500">
+                    {formatRate(differential.longRatePercent)} / {differential.longIntervalHours}h
+                  </div>
+                </td>
+                <td className="px-3 py-2 capitalize text-gray-300">
+                  {differential.short.exchange.replace('-', ' ')}
+                  <div className="font-mono text-xs text-gray-500">
+                    {formatRate(differential.shortRatePercent)} / {differential.shortIntervalHours}h
+                  </div>
+                </td>
+                <td className="px-3 py-2 text-right font-mono font-bold text-green-400">
+                  {formatRate(differential.differentialPercent)}
+                </td>
+                <td className="px-3 py-2 text-right font-mono text-gray-400">
+                  {differential.annualizedPercent.toFixed(1)}%
+                </td>
+                <td className="px-3 py-2 text-right font-mono text-gray-400">
+                  {differential.feesPercent.toFixed(2)}%
+                </td>
+                <td className="px-3 py-2 text-right text-gray-400">
+                  {formatCountdown(differential.nextFundingTime)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
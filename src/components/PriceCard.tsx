@@ -1,9 +1,8 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { PriceData, ConnectionStatus } from '@/lib/types';
-import { priceStore } from '@/lib/price-store';
-import { connectionManager } from '@/lib/connection-manager';
+import { useState, useEffect, useRef } from 'react';
+import { ConnectionStatus } from '@/lib/types';
+import { useMarketStream } from '@/hooks/use-market-stream';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
 // import { ArrowDownIcon, ArrowUpIcon } from 'lucide-react';
@@ -95,58 +94,32 @@ interface PriceCardProps {
 // }
 
 export function PriceCard({ exchange, ticker }: PriceCardProps) {
-  const [priceData, setPriceData] = useState<PriceData | null>(null);
-  const [connectionStatus, setConnectionStatus] =
-    useState<ConnectionStatus['status']>('disconnected');
-  const [lastPrice, setLastPrice] = useState<number | null>(null);
+  const { prices, statuses } = useMarketStream(ticker);
+  const priceData = prices[exchange] ?? null;
+  const connectionStatus: ConnectionStatus['status'] = statuses[exchange]?.status ?? 'disconnected';
+  const lastPrice = useRef<number | null>(null);
   const [priceDirection, setPriceDirection] = useState<'up' | 'down' | 'same'>('same');
   // const [lastUpdate, setLastUpdate] = useState<number>(Date.now());
 
   useEffect(() => {
-    //subscribe to price updates
-    const updatePrice = () => {
-      const prices = priceStore.getPrices(ticker);
-      const currentPrice = prices.get(exchange);
-
-      if (currentPrice) {
-        //determine price direction
-        if (lastPrice !== null) {
-          if (currentPrice.price > lastPrice) {
-            setPriceDirection('up');
-          } else if (currentPrice.price < lastPrice) {
-            setPriceDirection('down');
-          } else {
-            setPriceDirection('same');
-          }
-        }
-
-        setLastPrice(currentPrice.price);
-        setPriceData(currentPrice);
-        // setLastUpdate(Date.now());
-
-        //reset price direction after animation
-        setTimeout(() => setPriceDirection('same'), 500);
+    if (!priceData) return;
+
+    //determine price direction
+    if (lastPrice.current !== null) {
+      if (priceData.price > lastPrice.current) {
+        setPriceDirection('up');
+      } else if (priceData.price < lastPrice.current) {
+        setPriceDirection('down');
+      } else {
+        setPriceDirection('same');
       }
-    };
-
-    //subscribe to connection status
-    const unsubscribeStatus = connectionManager.onStatusUpdate((status) => {
-      if (status.exchange === exchange && status.ticker === ticker) {
-        setConnectionStatus(status.status);
-      }
-    });
-
-    //initial price fetch
-    updatePrice();
-
-    //set up periodic updates (fallback)
-    const interval = setInterval(updatePrice, 1000);
+    }
+    lastPrice.current = priceData.price;
 
-    return () => {
-      clearInterval(interval);
-      unsubscribeStatus();
-    };
-  }, [exchange, ticker, lastPrice]);
+    //reset price direction after animation
+    const timeout = setTimeout(() => setPriceDirection('same'), 500);
+    return () => clearTimeout(timeout);
+  }, [priceData]);
 
   // const getExchangeIcon = (exchangeName: string): string => {
   //   const icons: Record<string, string> = {
@@ -254,6 +227,14 @@ export function PriceCard({ exchange, ticker }: PriceCardProps) {
               </div>
             </div>
           )}
+
+          {/* Top of Book */}
+          {priceData?.bid !== undefined && priceData?.ask !== undefined && (
+            <div className="flex items-center justify-between text-xs font-mono">
+              <span className="text-green-400">Bid ${formatPrice(priceData.bid)}</span>
+              <span className="text-red-400">Ask ${formatPrice(priceData.ask)}</span>
+            </div>
+          )}
         </CardContent>
       </Card>
 			{/* /////////////////////////////////////// */}
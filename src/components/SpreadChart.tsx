@@ -0,0 +1,207 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { HistoryBucket, HistoryPoint } from '@/lib/history-store';
+import { PriceData } from '@/lib/types';
+import { useMarketStream } from '@/hooks/use-market-stream';
+
+interface SpreadChartProps {
+  ticker: string;
+  venues: string[];
+  thresholdPercent: number;
+}
+
+interface ChartPoint {
+  t: number;
+  value: number;
+}
+
+const WINDOWS = [
+  { label: '5m', ms: 5 * 60 * 1000 },
+  { label: '15m', ms: 15 * 60 * 1000 },
+  { label: '1h', ms: 60 * 60 * 1000 },
+  { label: '6h', ms: 6 * 60 * 60 * 1000 },
+  { label: '24h', ms: 24 * 60 * 60 * 1000 },
+];
+
+const WIDTH = 600;
+const HEIGHT = 160;
+const PADDING = { top: 10, right: 10, bottom: 20, left: 48 };
+
+//same definition the server uses: buy at the ask, sell into the bid
+const getSpread = (buyFrom?: PriceData, sellTo?: PriceData): number | null => {
+  if (!buyFrom || !sellTo) return null;
+  const buyPrice = buyFrom.ask ?? buyFrom.price;
+  const sellPrice = sellTo.bid ?? sellTo.price;
+  if (!(buyPrice > 0) || !(sellPrice > 0)) return null;
+  return Math.round(((sellPrice - buyPrice) / buyPrice) * 10000) / 100;
+};
+
+export function SpreadChart({ ticker, venues, thresholdPercent }: SpreadChartProps) {
+  const { prices } = useMarketStream(ticker);
+  const [buyVenue, setBuyVenue] = useState(venues[0] ?? '');
+  const [sellVenue, setSellVenue] = useState(venues[1] ?? '');
+  const [windowMs, setWindowMs] = useState(WINDOWS[1].ms);
+  const [points, setPoints] = useState<ChartPoint[]>([]);
+  const [feePercent, setFeePercent] = useState(0);
+  const [now, setNow] = useState(Date.now());
+
+  //stored history for the selected pair and window
+  useEffect(() => {
+    if (!buyVenue || !sellVenue || buyVenue === sellVenue) {
+      setPoints([]);
+      return;
+    }
+
+    let cancelled = false;
+    const params = new URLSearchParams({
+      ticker,
+      from: String(Date.now() - windowMs),
+      pair: `${buyVenue}->${sellVenue}`,
+    });
+
+    fetch(`/api/history?${params}`)
+      .then(response => response.json())
+      .then(data => {
+        if (cancelled) return;
+        const series: (HistoryPoint | HistoryBucket)[] = data.spreads?.[`${buyVenue}->${sellVenue}`] || [];
+        setPoints(series.map(p => ({ t: p.t, value: 'close' in p ? p.close : p.value })));
+        setFeePercent(data.feePercent ?? 0);
+      })
+      .catch(error => console.error('Failed to load spread history:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [ticker, buyVenue, sellVenue, windowMs]);
+
+  //live points from the stream
+  const buyPrice = prices[buyVenue];
+  const sellPrice = prices[sellVenue];
+  useEffect(() => {
+    const value = getSpread(buyPrice, sellPrice);
+    if (value === null) return;
+
+    const t = Date.now();
+    setNow(t);
+    setPoints(prev => [...prev.filter(p => p.t >= t - windowMs), { t, value }]);
+  }, [buyPrice, sellPrice, windowMs]);
+
+  if (venues.length < 2) return null;
+
+  //gross spread has to clear threshold + fees for the net opportunity to be live
+  const entryLine = thresholdPercent + feePercent;
+
+  const from = now - windowMs;
+  const visible = points.filter(p => p.t >= from);
+  const values = [...visible.map(p => p.value), entryLine, 0];
+  const yMin = Math.min(...values);
+  const yMax = Math.max(...values);
+  const yPad = (yMax - yMin || 1) * 0.1;
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (t: number) => PADDING.left + ((t - from) / windowMs) * plotWidth;
+  const y = (v: number) =>
+    PADDING.top + (1 - (v - (yMin - yPad)) / (yMax - yMin + 2 * yPad)) * plotHeight;
+
+  const path = visible
+    .map((p, i) => `${i === 0 ? 'M' : 'L'}${x(p.t).toFixed(1)},${y(p.value).toFixed(1)}`)
+    .join(' ');
+
+  //contiguous runs above the entry line
+  const livePeriods: { start: number; end: number }[] = [];
+  visible.forEach((p, i) => {
+    if (p.value < entryLine) return;
+    const end = visible[i + 1]?.t ?? now;
+    const last = livePeriods[livePeriods.length - 1];
+    if (last && last.end === p.t) {
+      last.end = end;
+    } else {
+      livePeriods.push({ start: p.t, end });
+    }
+  });
+
+  const selectClass = 'bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-sm text-white';
+
+  return (
+    <div className="mt-6 bg-neutral-800 rounded-lg p-4 border border-neutral-700">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h4 className="text-sm font-medium text-gray-300">Spread History</h4>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-gray-400">Buy</span>
+          <select className={selectClass} value={buyVenue} onChange={e => setBuyVenue(e.target.value)}>
+            {venues.map(v => (
+              <option key={v} value={v}>{v}</option>
+            ))}
+          </select>
+          <span className="text-gray-400">Sell</span>
+          <select className={selectClass} value={sellVenue} onChange={e => setSellVenue(e.target.value)}>
+            {venues.map(v => (
+              <option key={v} value={v}>{v}</option>
+            ))}
+          </select>
+          <select className={selectClass} value={windowMs} onChange={e => setWindowMs(Number(e.target.value))}>
+            {WINDOWS.map(w => (
+              <option key={w.ms} value={w.ms}>{w.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {buyVenue === sellVenue ? (
+        <div className="text-sm text-gray-500 text-center py-8">Pick two different venues</div>
+      ) : (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-40">
+          {/* LIVE PERIODS */}
+          {livePeriods.map(period => (
+            <rect
+              key={period.start}
+              x={x(period.start)}
+              y={PADDING.top}
+              width={Math.max(1, x(period.end) - x(period.start))}
+              height={plotHeight}
+              className="fill-green-500/15"
+            />
+          ))}
+
+          {/* ZERO AND THRESHOLD LINES */}
+          <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(0)} y2={y(0)} className="stroke-neutral-600" />
+          <line
+            x1={PADDING.left}
+            x2={WIDTH - PADDING.right}
+            y1={y(entryLine)}
+            y2={y(entryLine)}
+            strokeDasharray="4 4"
+            className="stroke-yellow-400"
+          />
+
+          {/* SPREAD */}
+          <path d={path} fill="none" strokeWidth={1.5} className="stroke-green-400" />
+
+          {/* AXES */}
+          <text x={PADDING.left - 4} y={y(yMax) + 4} textAnchor="end" className="fill-gray-400 text-[10px]">
+            {yMax.toFixed(2)}%
+          </text>
+          <text x={PADDING.left - 4} y={y(yMin) + 4} textAnchor="end" className="fill-gray-400 text-[10px]">
+            {yMin.toFixed(2)}%
+          </text>
+          <text x={PADDING.left - 4} y={y(entryLine) + 4} textAnchor="end" className="fill-yellow-400 text-[10px]">
+            {entryLine.toFixed(2)}%
+          </text>
+          <text x={PADDING.left} y={HEIGHT - 4} className="fill-gray-500 text-[10px]">
+            {new Date(from).toLocaleTimeString()}
+          </text>
+          <text x={WIDTH - PADDING.right} y={HEIGHT - 4} textAnchor="end" className="fill-gray-500 text-[10px]">
+            {new Date(now).toLocaleTimeString()}
+          </text>
+        </svg>
+      )}
+
+      <div className="mt-2 flex justify-between text-xs text-gray-500">
+        <span>Threshold {thresholdPercent}% + fees {feePercent.toFixed(2)}%</span>
+        <span>{visible.length} points</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+'use client';
+
+import { createContext, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { ArbitrageOpportunity, ConnectionStatus, PriceData } from '@/lib/types';
+import type { OpportunityEvent, TrackedOpportunity } from '@/lib/opportunity-tracker';
+
+//batched state updates, price frames can arrive many times per second
+const FLUSH_INTERVAL = 250;
+//closed runs kept per ticker, newest first
+const MAX_CLOSED_RUNS = 20;
+
+interface TickerStream {
+  prices: Record<string, PriceData>;
+  statuses: Record<string, ConnectionStatus>;
+  opportunities: ArbitrageOpportunity[];
+  //lifecycle of each route above threshold, keyed by opportunity id
+  openRuns: Record<string, TrackedOpportunity>;
+  closedRuns: TrackedOpportunity[];
+}
+
+interface MarketStreamState {
+  tickers: Record<string, TickerStream>;
+  connected: boolean;
+}
+
+const EMPTY_TICKER: TickerStream = { prices: {}, statuses: {}, opportunities: [], openRuns: {}, closedRuns: [] };
+
+const MarketStreamContext = createContext<MarketStreamState>({ tickers: {}, connected: false });
+
+interface MarketStreamProviderProps {
+  tickers: string[];
+  children: ReactNode;
+}
+
+//one EventSource on /api/stream shared by every card on the page. It streams every ticker and
+//is filtered here, so adding or removing a token doesn't reopen the connection
+export function MarketStreamProvider({ tickers, children }: MarketStreamProviderProps) {
+  const [state, setState] = useState<MarketStreamState>({ tickers: {}, connected: false });
+  const pending = useRef<Record<string, TickerStream>>({});
+  const tracked = useRef<Set<string>>(new Set());
+  const tickerKey = tickers.map(t => t.toUpperCase()).sort().join(',');
+
+  //drop tickers that left the page, new ones fill in as their frames arrive
+  useEffect(() => {
+    tracked.current = new Set(tickerKey ? tickerKey.split(',') : []);
+
+    const keep = (streams: Record<string, TickerStream>) =>
+      Object.fromEntries(Object.entries(streams).filter(([ticker]) => tracked.current.has(ticker)));
+    pending.current = keep(pending.current);
+    setState(prev => ({ ...prev, tickers: keep(prev.tickers) }));
+  }, [tickerKey]);
+
+  useEffect(() => {
+    const source = new EventSource('/api/stream');
+    let dirty = false;
+
+    //copy on write so state already handed to React is never mutated; null for tickers not on the page
+    const getTicker = (ticker: string): TickerStream | null => {
+      const key = ticker.toUpperCase();
+      if (!tracked.current.has(key)) return null;
+      pending.current[key] = { ...(pending.current[key] || EMPTY_TICKER) };
+      dirty = true;
+      return pending.current[key];
+    };
+
+    source.addEventListener('price', (event) => {
+      const { ticker, price } = JSON.parse((event as MessageEvent).data);
+      const stream = getTicker(ticker);
+      if (stream) stream.prices = { ...stream.prices, [price.exchange]: price };
+    });
+
+    source.addEventListener('status', (event) => {
+      const status: ConnectionStatus = JSON.parse((event as MessageEvent).data);
+      const stream = getTicker(status.ticker);
+      if (stream) stream.statuses = { ...stream.statuses, [status.exchange]: status };
+    });
+
+    source.addEventListener('opportunities', (event) => {
+      const { ticker, opportunities } = JSON.parse((event as MessageEvent).data);
+      const stream = getTicker(ticker);
+      if (stream) stream.opportunities = opportunities;
+    });
+
+    source.addEventListener('opportunity', (event) => {
+      const { type, opportunity }: OpportunityEvent = JSON.parse((event as MessageEvent).data);
+      const stream = getTicker(opportunity.ticker);
+      if (!stream) return;
+
+      const openRuns = { ...stream.openRuns };
+      if (type === 'closed') {
+        delete openRuns[opportunity.id];
+        stream.closedRuns = [opportunity, ...stream.closedRuns].slice(0, MAX_CLOSED_RUNS);
+      } else {
+        openRuns[opportunity.id] = opportunity;
+      }
+      stream.openRuns = openRuns;
+    });
+
+    source.onopen = () => setState(prev => ({ ...prev, connected: true }));
+    //EventSource retries on its own, only reflect the state
+    source.onerror = () => setState(prev => ({ ...prev, connected: false }));
+
+    const flush = setInterval(() => {
+      if (!dirty) return;
+      dirty = false;
+      setState(prev => ({ ...prev, tickers: { ...pending.current } }));
+    }, FLUSH_INTERVAL);
+
+    return () => {
+      clearInterval(flush);
+      source.close();
+    };
+  }, []);
+
+  return <MarketStreamContext.Provider value={state}>{children}</MarketStreamContext.Provider>;
+}
+
+export function useMarketStream(ticker: string): TickerStream & { connected: boolean } {
+  const { tickers, connected } = useContext(MarketStreamContext);
+  return { ...(tickers[ticker.toUpperCase()] || EMPTY_TICKER), connected };
+}
+
+//every ticker at once, for page-level stats
+export function useMarketStreamAll(): MarketStreamState {
+  return useContext(MarketStreamContext);
+}
@@ -0,0 +1,11 @@
+//runs once when the server starts
+export async function register() {
+  //monitoring needs Node APIs (fs, WebSocket); the import must sit inside this check
+  //so the edge bundle drops it instead of failing to resolve fs
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { restoreWatchlist } = await import('./lib/watchlist');
+
+    //don't hold up server start on exchange handshakes
+    restoreWatchlist().catch(error => console.error('❌ Watchlist restore failed:', error));
+  }
+}
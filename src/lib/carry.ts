@@ -0,0 +1,64 @@
+import { CarryOpportunity, PriceData } from './types';
+import { feeModel, getVenueName } from './fees';
+
+//most venues settle every 8h when the feed doesn't say otherwise
+export const DEFAULT_FUNDING_INTERVAL_HOURS = 8;
+
+const HOURS_PER_YEAR = 365 * 24;
+
+const toPercent = (rate: number | undefined): number | undefined =>
+  rate === undefined ? undefined : Math.round(rate * 1000000) / 10000;
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+//every spot (or DEX) leg against every perp, ranked by expected carry over the next funding interval
+export function calculateCarry(ticker: string, prices: Map<string, PriceData>): CarryOpportunity[] {
+  const legs = Array.from(prices.entries());
+  const spots = legs.filter(([, price]) => price.type !== 'futures');
+  const perps = legs.filter(([, price]) => price.type === 'futures');
+
+  const opportunities: CarryOpportunity[] = [];
+
+  for (const [spotKey, spot] of spots) {
+    for (const [perpKey, perp] of perps) {
+      //buy spot at the ask, short the perp into the bid
+      const spotPrice = spot.ask ?? spot.price;
+      const perpPrice = perp.bid ?? perp.price;
+      if (!(spotPrice > 0) || !(perpPrice > 0)) continue;
+
+      const basisPercent = ((perpPrice - spotPrice) / spotPrice) * 100;
+      const fundingIntervalHours = perp.fundingIntervalHours ?? DEFAULT_FUNDING_INTERVAL_HOURS;
+      const intervalsPerYear = HOURS_PER_YEAR / fundingIntervalHours;
+
+      //entry crosses both spreads and so does the exit
+      const entry = feeModel.estimate(ticker, spot, perp, spotPrice);
+      const feesPercent = 2 * (entry.buyFeePercent + entry.sellFeePercent);
+
+      const fundingRatePercent = toPercent(perp.fundingRate);
+
+      opportunities.push({
+        id: `${ticker}:${spotKey}->${perpKey}`,
+        spot,
+        perp,
+        spotPrice,
+        perpPrice,
+        //earned once at convergence, so only the funding leg is annualized
+        basisPercent: round(basisPercent),
+        fundingRatePercent,
+        predictedFundingRatePercent: toPercent(perp.predictedFundingRate),
+        annualizedFundingPercent:
+          fundingRatePercent === undefined ? undefined : round(fundingRatePercent * intervalsPerYear),
+        fundingIntervalHours,
+        nextFundingTime: perp.nextFundingTime,
+        feesPercent: round(feesPercent),
+        //one settlement, then both legs closed once the basis has converged
+        expectedCarryPercent: round((fundingRatePercent ?? 0) + basisPercent - feesPercent),
+        sameVenue: getVenueName(spot.exchange) === getVenueName(perp.exchange),
+        indicative: spot.ask === undefined || perp.bid === undefined,
+        timestamp: Date.now(),
+      });
+    }
+  }
+
+  return opportunities.sort((a, b) => b.expectedCarryPercent - a.expectedCarryPercent);
+}
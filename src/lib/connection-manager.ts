@@ -3,10 +3,16 @@ import { TokenConfig, ConnectionStatus, MarketType } from './types';
 import { ExchangeFactory } from './exchanges';
 import { dexPriceFetcher } from './dex/price-fetcher';
 import { priceStore } from './price-store';
+import { networkStatusStore } from './network-status';
+import { orderBookStore } from './order-book';
 import { BaseExchange } from './exchanges/base-exchange';
 import { tokenDiscovery } from './token-discovery';
+import { singleton } from './singleton';
 
 
+//venues flip deposits/withdrawals for maintenance, a few minutes of lag is fine
+const NETWORK_REFRESH_INTERVAL = 5 * 60 * 1000;
+
 interface ActiveConnection {
   exchange?: BaseExchange;
   dexMonitor?: () => void;
@@ -17,6 +23,8 @@ interface ActiveConnection {
 export class ConnectionManager {
   private activeConnections = new Map<string, ActiveConnection>();
   private statusCallbacks = new Set<(status: ConnectionStatus) => void>();
+  //per ticker, re-reads deposit/withdraw status and reported contracts
+  private networkRefreshers = new Map<string, ReturnType<typeof setInterval>>();
 
   async startMonitoring(config: TokenConfig): Promise<void> {
     const { ticker, exchanges, dexContracts, thresholdPercent } = config;
@@ -27,6 +35,14 @@ export class ConnectionManager {
     // Set arbitrage threshold in price store
     priceStore.setThreshold(ticker, thresholdPercent);
     
+    //ticker collisions and network status are checked in the background, prices flow meanwhile
+    this.refreshAssetNetworks(config);
+    clearInterval(this.networkRefreshers.get(ticker));
+    this.networkRefreshers.set(
+      ticker,
+      setInterval(() => this.refreshAssetNetworks(config), NETWORK_REFRESH_INTERVAL)
+    );
+    
     try {
       //start all exchange connections in parallel
       const exchangePromises: Promise<void>[] = [];
@@ -58,6 +74,26 @@ export class ConnectionManager {
     }
   }
 
+  private refreshAssetNetworks(config: TokenConfig): void {
+    const { ticker, dexContracts, allowMismatchedVenues } = config;
+    
+    tokenDiscovery.checkAssetCollisions(ticker, dexContracts)
+      .then(check => {
+        //monitoring may have stopped while the venues were queried
+        if (!this.networkRefreshers.has(ticker)) return;
+        
+        if (check.mismatched.length > 0) {
+          console.warn(
+            `⚠️ ${ticker} contract differs from the majority on ${check.mismatched.join(', ')}` +
+            (allowMismatchedVenues ? ' (kept by override)' : ', excluded from arbitrage')
+          );
+        }
+        priceStore.setExcludedVenues(ticker, allowMismatchedVenues ? [] : check.mismatched);
+        networkStatusStore.update(check);
+      })
+      .catch(error => console.error(`❌ Network check failed for ${ticker}:`, error));
+  }
+  
   async startMonitoringAuto(ticker: string, thresholdPercent: number = 1): Promise<void> {
     console.log(`🔍 Auto-discovering configuration for ${ticker}...`);
     
@@ -87,19 +123,15 @@ export class ConnectionManager {
     const connectionKey = `${ticker}-${exchangeName}-${marketType}`;
     
     try {
-      //create or get existing exchange instance
-      let exchange = this.getExchangeFromConnections(ticker, exchangeName);
-      
+      //one shared instance per exchange, every ticker is multiplexed on its sockets
+      const exchange = ExchangeFactory.createExchange(exchangeName);
       if (!exchange) {
-        exchange = ExchangeFactory.createExchange(exchangeName) ?? undefined;
-        if (!exchange) {
-          throw new Error(`Failed to create exchange: ${exchangeName}`);
-        }
+        throw new Error(`Failed to create exchange: ${exchangeName}`);
       }
       
-      //set up status callback
+      //statuses carry their ticker, route them to that ticker's connection
       exchange.onStatusUpdate = (status: ConnectionStatus) => {
-        this.updateConnectionStatus(connectionKey, status);
+        this.updateConnectionStatus(`${status.ticker}-${exchangeName}-${status.marketType}`, status);
       };
       
       //initialize connection record
@@ -132,16 +164,6 @@ export class ConnectionManager {
     }
   }
 
-  private getExchangeFromConnections(ticker: string, exchangeName: string): BaseExchange | undefined {
-    //look for existing exchange instance for this ticker and exchange
-    for (const [key, connection] of this.activeConnections) {
-      if (key.startsWith(`${ticker}-${exchangeName}-`) && connection.exchange) {
-        return connection.exchange;
-      }
-    }
-    return undefined;
-  }
-
   private async startDEXMonitoring(ticker: string, chain: string, contractAddress: string): Promise<void> {
     const connectionKey = `${ticker}-${chain}-dex`;
     
@@ -193,19 +215,8 @@ export class ConnectionManager {
     for (const [connectionKey, connection] of connectionsToStop) {
       try {
         if (connection.exchange) {
-          //only disconnect the specific market type if there are other connections for this exchange
-          const otherConnections = Array.from(this.activeConnections.entries())
-            .filter(([key, conn]) => 
-              key !== connectionKey && 
-              key.startsWith(`${ticker}-`) &&
-              conn.exchange === connection.exchange
-            );
-          
-          if (otherConnections.length === 0) {
-            connection.exchange.disconnect();
-          } else {
-            connection.exchange.disconnect([connection.marketType]);
-          }
+          //unsubscribe only this ticker, the socket stays up for the others
+          connection.exchange.removeTicker(ticker, [connection.marketType]);
         }
         
         if (connection.dexMonitor) {
@@ -224,8 +235,13 @@ export class ConnectionManager {
       }
     }
     
+    clearInterval(this.networkRefreshers.get(ticker));
+    this.networkRefreshers.delete(ticker);
+    networkStatusStore.clear(ticker);
+    
     //clear price store data
     priceStore.clearTicker(ticker);
+    orderBookStore.clearTicker(ticker);
     
     console.log(`✅ Monitoring stopped for ${ticker}`);
   }
@@ -374,4 +390,4 @@ export class ConnectionManager {
   }
 }
 
-export const connectionManager = new ConnectionManager();
\ No newline at end of file
+export const connectionManager = singleton('connectionManager', () => new ConnectionManager());
\ No newline at end of file
@@ -1,429 +1,941 @@
 import { ethers } from 'ethers';
-import { PriceData } from '../types';
+import { DexSizeQuote, PriceData } from '../types';
 import { priceStore } from '../price-store';
+import { feeModel } from '../fees';
+import { singleton } from '../singleton';
+import { RpcPool, RpcEndpointHealth } from './rpc-pool';
 
 // Precompiled ABIs for faster contract calls
 const UNISWAP_V2_PAIR_ABI = [
   'function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)',
   'function token0() view returns (address)',
   'function token1() view returns (address)',
+  'event Sync(uint112 reserve0, uint112 reserve1)',
 ];
 
 const UNISWAP_V2_FACTORY_ABI = [
   'function getPair(address tokenA, address tokenB) view returns (address pair)',
 ];
 
+const UNISWAP_V3_FACTORY_ABI = [
+  'function getPool(address tokenA, address tokenB, uint24 fee) view returns (address pool)',
+];
+
+// feeProtocol is uint8 on Uniswap and uint32 on PancakeSwap, uint32 decodes both
+const UNISWAP_V3_POOL_ABI = [
+  'function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint32 feeProtocol, bool unlocked)',
+  'function liquidity() view returns (uint128)',
+  'function token0() view returns (address)',
+  'event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)',
+  'event Mint(address sender, address indexed owner, int24 indexed tickLower, int24 indexed tickUpper, uint128 amount, uint256 amount0, uint256 amount1)',
+  'event Burn(address indexed owner, int24 indexed tickLower, int24 indexed tickUpper, uint128 amount, uint256 amount0, uint256 amount1)',
+];
+
+const QUOTER_V2_ABI = [
+  'function quoteExactInputSingle((address tokenIn, address tokenOut, uint256 amountIn, uint24 fee, uint160 sqrtPriceLimitX96) params) returns (uint256 amountOut, uint160 sqrtPriceX96After, uint32 initializedTicksCrossed, uint256 gasEstimate)',
+];
+
 const ERC20_ABI = [
   'function decimals() view returns (uint8)',
   'function symbol() view returns (string)',
 ];
 
+const MULTICALL3_ABI = [
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+  'function getBlockNumber() view returns (uint256 blockNumber)',
+];
+
+// Multicall3 is deployed at the same address on every supported chain
+const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+// keeps a single eth_call well under public RPC payload limits
+const MULTICALL_BATCH_SIZE = 500;
+// each Quoter call simulates a swap, keep batches inside node eth_call gas caps
+const QUOTER_BATCH_SIZE = 50;
+
+const V2_PAIR = new ethers.Interface(UNISWAP_V2_PAIR_ABI);
+const V2_FACTORY = new ethers.Interface(UNISWAP_V2_FACTORY_ABI);
+const V3_FACTORY = new ethers.Interface(UNISWAP_V3_FACTORY_ABI);
+const V3_POOL = new ethers.Interface(UNISWAP_V3_POOL_ABI);
+const QUOTER_V2 = new ethers.Interface(QUOTER_V2_ABI);
+const ERC20 = new ethers.Interface(ERC20_ABI);
+const MULTICALL3 = new ethers.Interface(MULTICALL3_ABI);
+
+// any of these on a monitored pool means its price or depth moved
+const POOL_EVENT_TOPICS = [
+  V2_PAIR.getEvent('Sync')!.topicHash,
+  V3_POOL.getEvent('Swap')!.topicHash,
+  V3_POOL.getEvent('Mint')!.topicHash,
+  V3_POOL.getEvent('Burn')!.topicHash,
+];
+
+interface Call {
+  target: string;
+  iface: ethers.Interface;
+  method: string;
+  args?: unknown[];
+}
+
 interface ChainConfig {
   name: string;
-  rpcUrl: string;
-  wethAddress: string;
+  rpcUrls: string[]; // tried in order of health, see RpcPool
+  wsUrl?: string; // enables block-driven updates, polling otherwise
+  nativeSymbol: string;
+  wrappedNativeAddress: string; // WETH, WBNB, WMATIC
   usdtAddress: string;
+  usdtDecimals: number;
   usdcAddress: string;
+  usdcDecimals: number;
   factoryAddress: string;
-  wethUsdtPair: string;
+  nativeUsdtPair: string; // V2 pair the native USD price is read from
+  v3FactoryAddress: string;
+  quoterAddress: string; // QuoterV2
+  v3FeeTiers: number[]; // hundredths of a bip, 3000 = 0.3%
+}
+
+// V2 pair or V3 pool against one of the chain's quote assets
+interface PoolCandidate {
+  version: 'v2' | 'v3';
+  address: string;
+  quoteAddress: string;
+  quoteDecimals: number;
+  quoteIsNative: boolean;
+  feeTier?: number; // V3 only
+  tokenIsToken0: boolean; // pools sort their tokens by address
+}
+
+interface PoolState {
+  candidate: PoolCandidate;
+  price: number; // USD per token at the pool's current price
+  depthUsd: number; // quote-side (virtual, for V3) reserves in USD
+  reserves?: { token: number; quote: number; quoteUsd: number }; // V2 only, in whole units
 }
 
+type TradeSide = 'buy' | 'sell';
+
+// one Quoter call, keyed `${side}:${notionalUsd}` per token
+interface QuoteRequest {
+  token: MonitoredToken;
+  key: string;
+  call: Call;
+  toPrice: (result: ethers.Result | null) => number | null;
+}
+
+// token on a chain's scheduler, immutable data is filled in by discovery
+interface MonitoredToken {
+  ticker: string;
+  tokenAddress: string;
+  decimals?: number;
+  pools?: PoolCandidate[];
+  discoveredAt: number;
+  blockNumber?: number; // block of the last published price
+}
+
+interface ChainSchedule {
+  tokens: Map<string, MonitoredToken>; // ticker -> token
+  intervals: Map<string, number>; // ticker -> requested poll interval
+  intervalMs: number;
+  timer?: ReturnType<typeof setInterval>;
+  polling: boolean;
+  socket?: ethers.WebSocketProvider; // new heads, when the chain has a WS RPC
+  lastHeadAt: number;
+  lastBlock?: number; // last block whose pool events were processed
+}
+
+export interface DeepestPool {
+  address: string;
+  version: 'v2' | 'v3';
+  feeTier?: number;
+  price: number;
+  depthUsd: number;
+}
+
+export interface NativePrice {
+  chain: string;
+  symbol: string;
+  price: number | null;
+  updatedAt: number | null;
+  error?: string;
+}
+
+// pools only change when someone deploys one, no need to rediscover every tick
+const POOL_DISCOVERY_TTL = 10 * 60 * 1000;
+// size the V3 Quoter is asked to fill for the headline price
+const REFERENCE_NOTIONAL_USD = 100;
+// trade sizes every DEX quote reports fills for, DEX_TRADE_SIZES_USD=1000,5000,50000 overrides
+const TRADE_SIZES_USD = (process.env.DEX_TRADE_SIZES_USD || '1000,5000,50000')
+  .split(',')
+  .map(Number)
+  .filter(size => isFinite(size) && size > 0);
+const Q96 = 2 ** 96;
+// with no head for this long the poll timer takes over from the subscription
+const WS_STALE_MS = 30 * 1000;
+// widest block range scanned for pool events before falling back to a full read
+const MAX_LOG_RANGE = 50;
+
+// ETH_RPC_URLS=https://a,https://b overrides the public defaults, ETH_RPC_URL still works for one
+const rpcUrls = (env: string, defaults: string[]): string[] => {
+  const configured = [process.env[`${env}_RPC_URLS`], process.env[`${env}_RPC_URL`]]
+    .flatMap(value => (value ? value.split(',') : []))
+    .map(url => url.trim())
+    .filter(Boolean);
+  return configured.length > 0 ? Array.from(new Set(configured)) : defaults;
+};
+
 // CHAIN CONFIGURATIONS with proper checksummed addresses
 const CHAIN_CONFIGS: Record<string, ChainConfig> = {
   eth: {
     name: 'Ethereum',
-    rpcUrl:
-      process.env.ETH_RPC_URL ||
-      'https://rpc.ankr.com/eth/7f707d2d7be4b92c171fe0fd2939423b4f1427f092df12b75773ef7777e3b631',
-    wethAddress: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+    rpcUrls: rpcUrls('ETH', [
+      'https://ethereum-rpc.publicnode.com',
+      'https://eth.llamarpc.com',
+      'https://cloudflare-eth.com',
+    ]),
+    wsUrl: process.env.ETH_WS_RPC_URL,
+    nativeSymbol: 'ETH',
+    wrappedNativeAddress: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
     usdtAddress: '0xdAC17F958D2ee523a2206206994597C13D831ec7',
-    usdcAddress: '0xA0b86a33E6441c8C6d0fe5C93ed31C3b86C57B48',
+    usdtDecimals: 6,
+    usdcAddress: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+    usdcDecimals: 6,
     factoryAddress: '0x5C69bEe701ef814a2B6a3EDD4B1652CB9cc5aA6f',
-    wethUsdtPair: '0x0d4a11d5EEaaC28EC3F61d100daF4d40471f1852',
+    nativeUsdtPair: '0x0d4a11d5EEaaC28EC3F61d100daF4d40471f1852',
+    // Uniswap V3
+    v3FactoryAddress: '0x1F98431c8aD98523631AE4a59f267346ea31F984',
+    quoterAddress: '0x61fFE014bA17989E743c5F6cB21bF9697530B21e',
+    v3FeeTiers: [100, 500, 3000, 10000],
   },
   bsc: {
     name: 'BSC',
-    rpcUrl: process.env.BSC_RPC_URL || 'https://bsc-dataseed.binance.org',
-    wethAddress: '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c',
+    rpcUrls: rpcUrls('BSC', [
+      'https://bsc-dataseed.binance.org',
+      'https://bsc-dataseed1.defibit.io',
+      'https://bsc-rpc.publicnode.com',
+    ]),
+    wsUrl: process.env.BSC_WS_RPC_URL,
+    nativeSymbol: 'BNB',
+    wrappedNativeAddress: '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c',
     usdtAddress: '0x55d398326f99059fF775485246999027B3197955',
+    usdtDecimals: 18,
     usdcAddress: '0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d',
+    usdcDecimals: 18,
     factoryAddress: '0xcA143Ce32Fe78f1f7019d7d551a6402fC5350c73',
-    wethUsdtPair: '0x16b9a82891338f9bA80E2D6970FddA79D1eb0daE',
+    nativeUsdtPair: '0x16b9a82891338f9bA80E2D6970FddA79D1eb0daE',
+    // PancakeSwap V3
+    v3FactoryAddress: '0x0BFbCF9fa4f9C56B0F40a671Ad40E0805A091865',
+    quoterAddress: '0xB048Bbc1Ee6b733FFfCFb9e9CeF7375518e25997',
+    v3FeeTiers: [100, 500, 2500, 10000],
   },
   polygon: {
     name: 'Polygon',
-    rpcUrl: process.env.POLYGON_RPC_URL || 'https://rpc-mainnet.matic.quiknode.pro',
-    wethAddress: '0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270',
+    rpcUrls: rpcUrls('POLYGON', [
+      'https://polygon-rpc.com',
+      'https://polygon-bor-rpc.publicnode.com',
+      'https://rpc-mainnet.matic.quiknode.pro',
+    ]),
+    wsUrl: process.env.POLYGON_WS_RPC_URL,
+    nativeSymbol: 'MATIC',
+    wrappedNativeAddress: '0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270',
     usdtAddress: '0xc2132D05D31c914a87C6611C10748AEb04B58e8F',
+    usdtDecimals: 6,
     usdcAddress: '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174',
+    usdcDecimals: 6,
     factoryAddress: '0x5757371414417b8C6CAad45bAeF941aBc7d3Ab32',
-    wethUsdtPair: '0x604229c960e5CACF2aaEAc8Be68Ac07BA9dF81c3',
+    nativeUsdtPair: '0x604229c960e5CACF2aaEAc8Be68Ac07BA9dF81c3',
+    // Uniswap V3
+    v3FactoryAddress: '0x1F98431c8aD98523631AE4a59f267346ea31F984',
+    quoterAddress: '0x61fFE014bA17989E743c5F6cB21bF9697530B21e',
+    v3FeeTiers: [100, 500, 3000, 10000],
   },
   arbitrum: {
     name: 'Arbitrum',
-    rpcUrl: process.env.ARBITRUM_RPC_URL || 'https://arb1.arbitrum.io/rpc',
-    wethAddress: '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1',
-    usdtAddress: '0xdAC17F958D2ee523a2206206994597C13D831ec7',
+    rpcUrls: rpcUrls('ARBITRUM', [
+      'https://arb1.arbitrum.io/rpc',
+      'https://arbitrum-one-rpc.publicnode.com',
+    ]),
+    wsUrl: process.env.ARBITRUM_WS_RPC_URL,
+    nativeSymbol: 'ETH',
+    wrappedNativeAddress: '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1',
+    usdtAddress: '0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9',
+    usdtDecimals: 6,
     usdcAddress: '0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8',
+    usdcDecimals: 6,
     factoryAddress: '0xf1D7CC64Fb4452F05c498126312eBE29f30Fbcf9',
-    wethUsdtPair: '0xcda53B1F66614552F834cEeF361A8D12a0B8DaD8',
+    nativeUsdtPair: '0xcda53B1F66614552F834cEeF361A8D12a0B8DaD8',
+    // Uniswap V3
+    v3FactoryAddress: '0x1F98431c8aD98523631AE4a59f267346ea31F984',
+    quoterAddress: '0x61fFE014bA17989E743c5F6cB21bF9697530B21e',
+    v3FeeTiers: [100, 500, 3000, 10000],
   },
 };
 
 export class DEXPriceFetcher {
-  private providers = new Map<string, ethers.JsonRpcProvider>();
-  private factoryContracts = new Map<string, ethers.Contract>();
-  private wethPrice: number | null = null;
-  private lastWethUpdate = 0;
-  private readonly WETH_UPDATE_INTERVAL = 3000; // 3 seconds
+  private rpcPools = new Map<string, RpcPool>();
+  // unconnected, bound to whichever endpoint serves the call
+  private multicallContract = new ethers.Contract(MULTICALL3_ADDRESS, MULTICALL3_ABI);
+  // one poll loop per chain, batching every monitored token into a single multicall
+  private schedules = new Map<string, ChainSchedule>();
+  // wrapped native USD price per chain, read in the same batch as the pools
+  private nativePrices = new Map<string, NativePrice>();
 
   constructor() {
     this.initializeProviders();
-    this.preloadWethPrice();
   }
 
   private initializeProviders(): void {
     for (const [chain, config] of Object.entries(CHAIN_CONFIGS)) {
       try {
-        // Optimize provider settings for speed
-        const provider = new ethers.JsonRpcProvider(config.rpcUrl, undefined, {
-          staticNetwork: true,
-          batchStallTime: 10, // Reduce batch stall time for faster responses
-          batchMaxSize: 100,
-        });
-
-        // Pre-create factory contract
-        const factoryContract = new ethers.Contract(
-          config.factoryAddress,
-          UNISWAP_V2_FACTORY_ABI,
-          provider
-        );
-
-        this.providers.set(chain, provider);
-        this.factoryContracts.set(chain, factoryContract);
-        console.log(`Initialized ${config.name} provider and factory`);
+        this.rpcPools.set(chain, new RpcPool(config.name, config.rpcUrls));
+        console.log(`Initialized ${config.name} with ${config.rpcUrls.length} RPC endpoints`);
       } catch (error) {
         console.error(`Failed to initialize ${config.name}:`, error);
       }
     }
   }
 
-  // Preload WETH price in background
-  private async preloadWethPrice(): Promise<void> {
-    try {
-      await this.updateWethPrice('eth'); // Default to Ethereum for WETH price
-    } catch (error) {
-      console.warn('Failed to preload WETH price:', error);
+  // aggregate3 with allowFailure, so one bad pool can't fail the batch; failed calls come back null
+  private async multicall(
+    chain: string,
+    calls: Call[],
+    blockTag?: number,
+    batchSize: number = MULTICALL_BATCH_SIZE
+  ): Promise<(ethers.Result | null)[]> {
+    const rpcPool = this.rpcPools.get(chain);
+    if (!rpcPool) {
+      throw new Error(`Chain ${chain} not properly initialized`);
     }
-  }
-
-  async getTokenPrice(chain: string, tokenAddress: string, ticker: string): Promise<number> {
-    try {
-      // Ensure address is properly checksummed
-      const checksummedAddress = ethers.getAddress(tokenAddress.toLowerCase());
-      
-      const price = await this.fetchTokenPriceOptimized(chain, checksummedAddress);
+    // reads pinned to a head go through the socket that announced it, HTTP nodes can lag a block
+    const socket = this.schedules.get(chain)?.socket;
+
+    const results: (ethers.Result | null)[] = [];
+    for (let i = 0; i < calls.length; i += batchSize) {
+      const batch = calls.slice(i, i + batchSize);
+      const aggregate = (runner: ethers.Provider) =>
+        (this.multicallContract.connect(runner) as ethers.Contract).aggregate3.staticCall(
+          batch.map(call => ({
+            target: call.target,
+            allowFailure: true,
+            callData: call.iface.encodeFunctionData(call.method, call.args || []),
+          })),
+          { blockTag }
+        );
 
-      // Update price store
-      const priceData: PriceData = {
-        exchange: `${chain}-dex`,
-        symbol: ticker,
-        price,
-        timestamp: Date.now(),
-        type: 'dex',
-      };
+      const responses =
+        blockTag !== undefined && socket ? await aggregate(socket) : await rpcPool.call(aggregate);
 
-      priceStore.updatePrice(ticker, `${chain}-dex`, priceData);
-      return price;
-    } catch (error) {
-      console.error(`Failed to fetch price for ${ticker} on ${chain}:`, error);
-      throw error;
+      responses.forEach(([success, returnData]: [boolean, string], index: number) => {
+        const call = batch[index];
+        if (!success || returnData === '0x') {
+          results.push(null);
+          return;
+        }
+        try {
+          results.push(call.iface.decodeFunctionResult(call.method, returnData));
+        } catch {
+          results.push(null);
+        }
+      });
     }
+    return results;
   }
 
-  // Optimized price fetching with parallel calls
-  private async fetchTokenPriceOptimized(chain: string, tokenAddress: string): Promise<number> {
-    const provider = this.providers.get(chain);
-    const factory = this.factoryContracts.get(chain);
+  // Pair/pool addresses across V2 and every V3 fee tier, plus decimals, in one batch
+  private async discoverToken(chain: string, token: MonitoredToken): Promise<void> {
     const config = CHAIN_CONFIGS[chain];
+    const tokenAddress = token.tokenAddress;
+
+    const quotes = [
+      { quoteAddress: ethers.getAddress(config.usdtAddress), quoteDecimals: config.usdtDecimals, quoteIsNative: false },
+      { quoteAddress: ethers.getAddress(config.usdcAddress), quoteDecimals: config.usdcDecimals, quoteIsNative: false },
+      { quoteAddress: ethers.getAddress(config.wrappedNativeAddress), quoteDecimals: 18, quoteIsNative: true },
+    ];
+
+    const lookups: { call: Call; candidate: Omit<PoolCandidate, 'address'> }[] = [];
+    for (const quote of quotes) {
+      const tokenIsToken0 = tokenAddress.toLowerCase() < quote.quoteAddress.toLowerCase();
+
+      lookups.push({
+        call: { target: config.factoryAddress, iface: V2_FACTORY, method: 'getPair', args: [tokenAddress, quote.quoteAddress] },
+        candidate: { version: 'v2', tokenIsToken0, ...quote },
+      });
+      for (const feeTier of config.v3FeeTiers) {
+        lookups.push({
+          call: {
+            target: config.v3FactoryAddress,
+            iface: V3_FACTORY,
+            method: 'getPool',
+            args: [tokenAddress, quote.quoteAddress, feeTier],
+          },
+          candidate: { version: 'v3', feeTier, tokenIsToken0, ...quote },
+        });
+      }
+    }
 
-    if (!provider || !factory || !config) {
-      throw new Error(`Chain ${chain} not properly initialized`);
+    const [decimals, ...addresses] = await this.multicall(chain, [
+      { target: tokenAddress, iface: ERC20, method: 'decimals' },
+      ...lookups.map(lookup => lookup.call),
+    ]);
+
+    if (!decimals) {
+      console.warn(`Could not fetch decimals for ${tokenAddress}, using 18`);
     }
 
-    // Ensure all addresses are checksummed
-    const checksummedToken = ethers.getAddress(tokenAddress);
-    const checksummedUSDT = ethers.getAddress(config.usdtAddress);
-    const checksummedUSDC = ethers.getAddress(config.usdcAddress);
-    const checksummedWETH = ethers.getAddress(config.wethAddress);
+    token.decimals = decimals ? Number(decimals[0]) : 18;
+    token.pools = lookups
+      .map((lookup, index) => ({ ...lookup.candidate, address: addresses[index]?.[0] as string }))
+      .filter(pool => pool.address && pool.address !== ethers.ZeroAddress);
+    token.discoveredAt = Date.now();
+
+    if (token.pools.length === 0) {
+      console.warn(`No trading pair found for token ${tokenAddress} on ${chain}`);
+    }
+  }
+
+  // Timer tick: every token in one read. With a live head subscription the timer only
+  // takes over once heads stop arriving
+  private async pollChain(chain: string): Promise<void> {
+    const schedule = this.schedules.get(chain);
+    // a slow RPC shouldn't stack ticks on top of each other
+    if (!schedule || schedule.polling) return;
+    if (schedule.socket && Date.now() - schedule.lastHeadAt < WS_STALE_MS) return;
+    schedule.polling = true;
+
+    const startTime = Date.now();
 
     try {
-      // Try to find pairs in parallel for speed
-      const [usdtPair, usdcPair, wethPair] = await Promise.allSettled([
-        factory.getPair(checksummedToken, checksummedUSDT),
-        factory.getPair(checksummedToken, checksummedUSDC),
-        factory.getPair(checksummedToken, checksummedWETH),
-      ]);
-
-      // Process results and find valid pairs
-      let targetPair: string | null = null;
-      let stableAddress: string | null = null;
-      let stableDecimals = 6; // Default for USDT/USDC
-
-      if (usdtPair.status === 'fulfilled' && usdtPair.value !== ethers.ZeroAddress) {
-        targetPair = usdtPair.value;
-        stableAddress = checksummedUSDT;
-        stableDecimals = 6; // USDT has 6 decimals
-      } else if (usdcPair.status === 'fulfilled' && usdcPair.value !== ethers.ZeroAddress) {
-        targetPair = usdcPair.value;
-        stableAddress = checksummedUSDC;
-        stableDecimals = 6; // USDC has 6 decimals
-      } else if (wethPair.status === 'fulfilled' && wethPair.value !== ethers.ZeroAddress) {
-        targetPair = wethPair.value;
-        stableAddress = checksummedWETH;
-        stableDecimals = 18; // WETH has 18 decimals
-      }
+      const ready = await this.discoverStale(chain, schedule);
+      if (ready.length === 0) return;
 
-      if (!targetPair || !stableAddress) {
-        throw new Error(`No trading pair found for token ${checksummedToken} on ${chain}`);
-      }
+      await this.readPools(chain, schedule, ready);
 
-      // Get price from the pair
-      if (stableAddress === checksummedWETH) {
-        return this.calculatePriceViaWETH(provider, targetPair, checksummedToken, checksummedWETH, chain);
-      } else {
-        return this.calculateDirectPrice(provider, targetPair, checksummedToken, stableAddress, stableDecimals);
+      const duration = Date.now() - startTime;
+      if (duration > 1000) {
+        console.warn(`Slow DEX poll on ${chain} (${ready.length} tokens): ${duration}ms`);
       }
     } catch (error) {
-      console.error(`Error fetching price for ${checksummedToken}:`, error);
-      throw error;
+      console.error(`DEX poll failed on ${chain}:`, error);
+    } finally {
+      schedule.polling = false;
     }
   }
 
-  // Calculate direct USD price from TOKEN/USDT or TOKEN/USDC pair
-  private async calculateDirectPrice(
-    provider: ethers.JsonRpcProvider,
-    pairAddress: string,
-    tokenAddress: string,
-    stableAddress: string,
-    stableDecimals: number
-  ): Promise<number> {
-    const pairContract = new ethers.Contract(pairAddress, UNISWAP_V2_PAIR_ABI, provider);
-
-    // Get all data in parallel for speed
-    const [reservesResult, token0Result, token1Result, tokenDecimalsResult] = await Promise.allSettled([
-      pairContract.getReserves(),
-      pairContract.token0(),
-      pairContract.token1(),
-      this.getTokenDecimals(provider, tokenAddress),
-    ]);
+  // New head: re-read only the tokens whose pools (or the native pair) emitted events since the
+  // last block we processed, all at that head
+  private async onBlock(chain: string, blockNumber: number): Promise<void> {
+    const schedule = this.schedules.get(chain);
+    if (!schedule?.socket) return;
+    schedule.lastHeadAt = Date.now();
+    // blocks that land mid-read are covered by the next head's log range
+    if (schedule.polling) return;
+    schedule.polling = true;
 
-    if (reservesResult.status !== 'fulfilled' || token0Result.status !== 'fulfilled' || token1Result.status !== 'fulfilled') {
-      throw new Error('Failed to fetch pair data');
-    }
+    const config = CHAIN_CONFIGS[chain];
+
+    try {
+      const ready = await this.discoverStale(chain, schedule);
+      if (ready.length === 0) return;
+
+      const fromBlock = (schedule.lastBlock ?? blockNumber - 1) + 1;
+      if (fromBlock > blockNumber) return;
+
+      let affected = ready;
+      // after a long gap a full read is cheaper than scanning the logs
+      if (blockNumber - fromBlock < MAX_LOG_RANGE) {
+        const addresses = [config.nativeUsdtPair, ...ready.flatMap(token => token.pools!.map(pool => pool.address))];
+        const logs = await schedule.socket.getLogs({
+          fromBlock,
+          toBlock: blockNumber,
+          address: addresses,
+          topics: [POOL_EVENT_TOPICS],
+        });
 
-    const [reserve0, reserve1] = reservesResult.value;
-    const token0 = ethers.getAddress(token0Result.value);
-    const token1 = ethers.getAddress(token1Result.value);
-    const tokenDecimals = tokenDecimalsResult.status === 'fulfilled' ? tokenDecimalsResult.value : 18;
+        const changed = new Set(logs.map(log => log.address.toLowerCase()));
+        const nativeChanged = changed.has(config.nativeUsdtPair.toLowerCase());
 
-    // Determine token positions
-    const tokenIsToken0 = token0 === ethers.getAddress(tokenAddress);
-    
-    if (!tokenIsToken0 && token1 !== ethers.getAddress(tokenAddress)) {
-      throw new Error(`Token ${tokenAddress} not found in pair`);
+        affected = ready.filter(
+          token =>
+            token.blockNumber === undefined ||
+            token.pools!.some(
+              pool => changed.has(pool.address.toLowerCase()) || (nativeChanged && pool.quoteIsNative)
+            )
+        );
+      }
+
+      if (affected.length > 0) {
+        await this.readPools(chain, schedule, affected, blockNumber);
+      }
+      schedule.lastBlock = blockNumber;
+    } catch (error) {
+      console.error(`DEX block ${blockNumber} update failed on ${chain}:`, error);
+    } finally {
+      schedule.polling = false;
     }
+  }
 
-    // Calculate price correctly: stable_amount / token_amount
-    let tokenReserve: bigint;
-    let stableReserve: bigint;
+  // pools only change when someone deploys one, rediscover on a slow TTL
+  private async discoverStale(chain: string, schedule: ChainSchedule): Promise<MonitoredToken[]> {
+    const tokens = Array.from(schedule.tokens.values());
+    const stale = tokens.filter(token => Date.now() - token.discoveredAt > POOL_DISCOVERY_TTL);
 
-    if (tokenIsToken0) {
-      tokenReserve = reserve0;
-      stableReserve = reserve1;
-    } else {
-      tokenReserve = reserve1;
-      stableReserve = reserve0;
-    }
+    await Promise.all(
+      stale.map(token =>
+        this.discoverToken(chain, token).catch(error =>
+          console.error(`Pool discovery failed for ${token.ticker} on ${chain}:`, error)
+        )
+      )
+    );
+
+    return tokens.filter(token => token.pools && token.pools.length > 0);
+  }
 
-    // Convert to proper decimals and calculate price
-    const tokenReserveAdjusted = Number(tokenReserve) / Math.pow(10, tokenDecimals);
-    const stableReserveAdjusted = Number(stableReserve) / Math.pow(10, stableDecimals);
+  // Native price and every pool of the tokens in one multicall, deepest pool per token
+  private async readDeepestPools(
+    chain: string,
+    tokens: MonitoredToken[],
+    blockTag?: number
+  ): Promise<{ blockNumber?: number; winners: { token: MonitoredToken; state: PoolState }[] }> {
+    const config = CHAIN_CONFIGS[chain];
 
-    // Price = stable_amount / token_amount (how many USD for 1 token)
-    const price = stableReserveAdjusted / tokenReserveAdjusted;
+    const calls: Call[] = [
+      { target: MULTICALL3_ADDRESS, iface: MULTICALL3, method: 'getBlockNumber' },
+      { target: config.nativeUsdtPair, iface: V2_PAIR, method: 'getReserves' },
+    ];
+    for (const token of tokens) {
+      for (const pool of token.pools!) {
+        if (pool.version === 'v2') {
+          calls.push({ target: pool.address, iface: V2_PAIR, method: 'getReserves' });
+        } else {
+          calls.push({ target: pool.address, iface: V3_POOL, method: 'slot0' });
+          calls.push({ target: pool.address, iface: V3_POOL, method: 'liquidity' });
+        }
+      }
+    }
 
-    if (price <= 0 || !isFinite(price)) {
-      throw new Error('Invalid price calculation result');
+    const results = await this.multicall(chain, calls, blockTag);
+    const blockNumber = blockTag ?? (results[0] ? Number(results[0][0]) : undefined);
+    this.updateNativePrice(chain, results[1]);
+
+    // deepest pool per token, V2 or V3
+    let cursor = 2;
+    const winners: { token: MonitoredToken; state: PoolState }[] = [];
+    for (const token of tokens) {
+      let deepest: PoolState | null = null;
+      for (const pool of token.pools!) {
+        const state =
+          pool.version === 'v2'
+            ? this.readV2State(chain, token, pool, results[cursor++])
+            : this.readV3State(chain, token, pool, results[cursor++], results[cursor++]);
+        if (state && (!deepest || state.depthUsd > deepest.depthUsd)) {
+          deepest = state;
+        }
+      }
+
+      if (deepest) {
+        winners.push({ token, state: deepest });
+      } else {
+        console.warn(`No pool with liquidity for ${token.ticker} on ${chain}`);
+      }
     }
 
-    return price;
+    return { blockNumber, winners };
   }
 
-  // Calculate price via WETH with live WETH price
-  private async calculatePriceViaWETH(
-    provider: ethers.JsonRpcProvider,
-    pairAddress: string,
-    tokenAddress: string,
-    wethAddress: string,
-    chain: string
-  ): Promise<number> {
-    // Update WETH price if needed
-    await this.updateWethPriceIfNeeded(chain);
-
-    if (!this.wethPrice) {
-      throw new Error('WETH price not available');
+  // Pool states, then the Quoter for V3 winners in a second multicall. Only a head announced by
+  // the socket pins the quotes to the same block: a polled block number may not exist yet on
+  // whichever HTTP endpoint answers the quote batch
+  private async readPools(
+    chain: string,
+    schedule: ChainSchedule,
+    tokens: MonitoredToken[],
+    blockTag?: number
+  ): Promise<void> {
+    const { blockNumber, winners } = await this.readDeepestPools(chain, tokens, blockTag);
+
+    // V3 sizes go through the Quoter, V2 sizes are computed from the reserves already read
+    const tradeSizes = this.getTradeSizes();
+    const quoteCalls: QuoteRequest[] = [];
+    for (const { token, state } of winners) {
+      const requests = [
+        this.buildQuoteCall(chain, token, state, 'sell', REFERENCE_NOTIONAL_USD),
+        ...tradeSizes.flatMap(notionalUsd => [
+          this.buildQuoteCall(chain, token, state, 'buy', notionalUsd),
+          this.buildQuoteCall(chain, token, state, 'sell', notionalUsd),
+        ]),
+      ];
+      const seen = new Set<string>();
+      for (const request of requests) {
+        if (request && !seen.has(request.key)) {
+          seen.add(request.key);
+          quoteCalls.push(request);
+        }
+      }
     }
 
-    const pairContract = new ethers.Contract(pairAddress, UNISWAP_V2_PAIR_ABI, provider);
+    // a failed quote batch still publishes from reserves and slot0, just without sized quotes
+    let quoteResults: (ethers.Result | null)[] = [];
+    if (quoteCalls.length > 0) {
+      try {
+        quoteResults = await this.multicall(chain, quoteCalls.map(q => q.call), blockTag, QUOTER_BATCH_SIZE);
+      } catch (error) {
+        console.warn(`DEX quote batch failed on ${chain}, publishing pool prices only:`, error);
+      }
+    }
 
-    // Get all data in parallel
-    const [reservesResult, token0Result, token1Result, tokenDecimalsResult] = await Promise.allSettled([
-      pairContract.getReserves(),
-      pairContract.token0(),
-      pairContract.token1(),
-      this.getTokenDecimals(provider, tokenAddress),
-    ]);
+    // token -> `${side}:${notionalUsd}` -> fee-exclusive USD price
+    const quotedPrices = new Map<MonitoredToken, Map<string, number>>();
+    quoteCalls.forEach((quote, index) => {
+      const price = quote.toPrice(quoteResults[index]);
+      if (price === null) return;
+      if (!quotedPrices.has(quote.token)) quotedPrices.set(quote.token, new Map());
+      quotedPrices.get(quote.token)!.set(quote.key, price);
+    });
+
+    const notionalUsd = feeModel.getNotional();
+    for (const { token, state } of winners) {
+      // the token may have been removed while the batch was in flight
+      if (!schedule.tokens.has(token.ticker)) continue;
+
+      const { candidate } = state;
+      const quoted = quotedPrices.get(token);
+      const sizes = this.buildSizeQuotes(state, quoted, tradeSizes);
+      // a size the pool can't fill leaves bid/ask unset, so the quote only counts as indicative
+      const atNotional = sizes.find(size => size.notionalUsd === notionalUsd);
+      token.blockNumber = blockNumber;
 
-    if (reservesResult.status !== 'fulfilled' || token0Result.status !== 'fulfilled' || token1Result.status !== 'fulfilled') {
-      throw new Error('Failed to fetch pair data');
+      const priceData: PriceData = {
+        exchange: `${chain}-dex`,
+        symbol: token.ticker,
+        price: quoted?.get(`sell:${REFERENCE_NOTIONAL_USD}`) ?? state.price,
+        timestamp: Date.now(),
+        type: 'dex',
+        bid: atNotional?.sellPrice,
+        ask: atNotional?.buyPrice,
+        pool: candidate.address,
+        poolFee: candidate.version === 'v3' ? candidate.feeTier! / 10000 : undefined,
+        sizes,
+        blockNumber,
+      };
+      priceStore.updatePrice(token.ticker, `${chain}-dex`, priceData);
     }
 
-    const [reserve0, reserve1] = reservesResult.value;
-    const token0 = ethers.getAddress(token0Result.value);
-    const token1 = ethers.getAddress(token1Result.value);
-    const tokenDecimals = tokenDecimalsResult.status === 'fulfilled' ? tokenDecimalsResult.value : 18;
-
-    // Determine positions
-    const tokenIsToken0 = token0 === ethers.getAddress(tokenAddress);
-    
-    let tokenReserve: bigint;
-    let wethReserve: bigint;
-
-    if (tokenIsToken0) {
-      tokenReserve = reserve0;
-      wethReserve = reserve1;
-    } else {
-      tokenReserve = reserve1;
-      wethReserve = reserve0;
+    if (blockNumber !== undefined && (schedule.lastBlock === undefined || blockNumber > schedule.lastBlock)) {
+      schedule.lastBlock = blockNumber;
     }
+  }
+
+  // USD value of one unit of a pool's quote asset, null while the native price is unknown
+  private getQuoteUsd(chain: string, candidate: PoolCandidate): number | null {
+    return candidate.quoteIsNative ? this.nativePrices.get(chain)?.price ?? null : 1;
+  }
+
+  private readV2State(
+    chain: string,
+    token: MonitoredToken,
+    candidate: PoolCandidate,
+    reserves: ethers.Result | null
+  ): PoolState | null {
+    const quoteUsd = this.getQuoteUsd(chain, candidate);
+    if (!reserves || !quoteUsd) return null;
+
+    const [reserve0, reserve1] = reserves;
+    const tokenReserve: bigint = candidate.tokenIsToken0 ? reserve0 : reserve1;
+    const quoteReserve: bigint = candidate.tokenIsToken0 ? reserve1 : reserve0;
+    if (tokenReserve === BigInt(0) || quoteReserve === BigInt(0)) return null;
+
+    // Price = quote_amount / token_amount (how many USD for 1 token)
+    const decimalsScale = Math.pow(10, token.decimals! - candidate.quoteDecimals);
+    const price = (Number(quoteReserve) / Number(tokenReserve)) * decimalsScale * quoteUsd;
+    const quote = Number(quoteReserve) / Math.pow(10, candidate.quoteDecimals);
+    const depthUsd = quote * quoteUsd;
+    const tokenAmount = Number(tokenReserve) / Math.pow(10, token.decimals!);
+
+    return isFinite(price) && price > 0
+      ? { candidate, price, depthUsd, reserves: { token: tokenAmount, quote, quoteUsd } }
+      : null;
+  }
+
+  private readV3State(
+    chain: string,
+    token: MonitoredToken,
+    candidate: PoolCandidate,
+    slot0: ethers.Result | null,
+    liquidityResult: ethers.Result | null
+  ): PoolState | null {
+    const quoteUsd = this.getQuoteUsd(chain, candidate);
+    if (!slot0 || !liquidityResult || !quoteUsd) return null;
+
+    const liquidity: bigint = liquidityResult[0];
+    if (liquidity === BigInt(0)) return null;
+
+    // sqrtPriceX96 = sqrt(token1 / token0) in raw units, Q64.96
+    const sqrtPrice = Number(slot0[0]) / Q96;
+    const rawPrice = candidate.tokenIsToken0 ? sqrtPrice * sqrtPrice : 1 / (sqrtPrice * sqrtPrice);
+    const price = rawPrice * Math.pow(10, token.decimals! - candidate.quoteDecimals) * quoteUsd;
+
+    // in-range liquidity as virtual reserves: token0 = L / sqrtP, token1 = L * sqrtP
+    const quoteReserve = candidate.tokenIsToken0 ? Number(liquidity) * sqrtPrice : Number(liquidity) / sqrtPrice;
+    const depthUsd = (quoteReserve / Math.pow(10, candidate.quoteDecimals)) * quoteUsd;
+
+    return isFinite(price) && price > 0 ? { candidate, price, depthUsd } : null;
+  }
 
-    // Calculate token price in WETH
-    const tokenReserveAdjusted = Number(tokenReserve) / Math.pow(10, tokenDecimals);
-    const wethReserveAdjusted = Number(wethReserve) / Math.pow(10, 18); // WETH has 18 decimals
+  // Quoter call for one side of a trade of notionalUsd against a V3 winner; the fee is taken
+  // back out of the result since the fee model charges poolFee on top
+  private buildQuoteCall(
+    chain: string,
+    token: MonitoredToken,
+    state: PoolState,
+    side: TradeSide,
+    notionalUsd: number
+  ): QuoteRequest | null {
+    const { candidate } = state;
+    if (candidate.version !== 'v3') return null;
+
+    const decimals = token.decimals!;
+    const quoteUsd = this.getQuoteUsd(chain, candidate)!;
+    const feeFraction = candidate.feeTier! / 1000000;
+
+    // selling spends tokens, buying spends the quote asset
+    const [tokenIn, tokenOut, decimalsIn, decimalsOut, unitUsd] =
+      side === 'sell'
+        ? [token.tokenAddress, candidate.quoteAddress, decimals, candidate.quoteDecimals, state.price]
+        : [candidate.quoteAddress, token.tokenAddress, candidate.quoteDecimals, decimals, quoteUsd];
+
+    const amountIn = ethers.parseUnits((notionalUsd / unitUsd).toFixed(Math.min(decimalsIn, 8)), decimalsIn);
+    if (amountIn === BigInt(0)) return null;
+
+    return {
+      token,
+      key: `${side}:${notionalUsd}`,
+      call: {
+        target: CHAIN_CONFIGS[chain].quoterAddress,
+        iface: QUOTER_V2,
+        method: 'quoteExactInputSingle',
+        args: [{ tokenIn, tokenOut, amountIn, fee: candidate.feeTier, sqrtPriceLimitX96: 0 }],
+      },
+      // a reverted quote means the pool can't fill the size
+      toPrice: result => {
+        if (!result) return null;
+        const spent = Number(amountIn) / Math.pow(10, decimalsIn);
+        const received = Number(result[0]) / Math.pow(10, decimalsOut) / (1 - feeFraction);
+        const price =
+          side === 'sell' ? (received * quoteUsd) / spent : (spent * quoteUsd) / received;
+        return isFinite(price) && price > 0 ? price : null;
+      },
+    };
+  }
 
-    const tokenPriceInWeth = wethReserveAdjusted / tokenReserveAdjusted;
-    const tokenPriceInUsd = tokenPriceInWeth * this.wethPrice;
+  // Constant-product fill for one side of a trade of notionalUsd against a V2 winner, before the fee
+  private v2FillPrice(state: PoolState, side: TradeSide, notionalUsd: number): number | null {
+    if (!state.reserves) return null;
+    const { token: tokenReserve, quote: quoteReserve, quoteUsd } = state.reserves;
 
-    if (tokenPriceInUsd <= 0 || !isFinite(tokenPriceInUsd)) {
-      throw new Error('Invalid price calculation via WETH');
+    if (side === 'sell') {
+      const sold = notionalUsd / state.price;
+      const received = (quoteReserve * sold) / (tokenReserve + sold);
+      return (received * quoteUsd) / sold;
     }
 
-    return tokenPriceInUsd;
+    const paid = notionalUsd / quoteUsd;
+    const bought = (tokenReserve * paid) / (quoteReserve + paid);
+    return bought > 0 ? notionalUsd / bought : null;
   }
 
-  // Update WETH price if cache is stale
-  private async updateWethPriceIfNeeded(chain: string): Promise<void> {
-    const now = Date.now();
-    if (now - this.lastWethUpdate > this.WETH_UPDATE_INTERVAL) {
-      await this.updateWethPrice(chain);
+  // executable buy/sell price and impact against the mid for each configured trade size
+  private buildSizeQuotes(
+    state: PoolState,
+    quoted: Map<string, number> | undefined,
+    tradeSizes: number[]
+  ): DexSizeQuote[] {
+    const fill = (side: TradeSide, notionalUsd: number) =>
+      state.candidate.version === 'v2'
+        ? this.v2FillPrice(state, side, notionalUsd)
+        : quoted?.get(`${side}:${notionalUsd}`) ?? null;
+
+    const sizes: DexSizeQuote[] = [];
+    for (const notionalUsd of tradeSizes) {
+      const buyPrice = fill('buy', notionalUsd);
+      const sellPrice = fill('sell', notionalUsd);
+      if (buyPrice === null || sellPrice === null) continue;
+
+      sizes.push({
+        notionalUsd,
+        buyPrice,
+        sellPrice,
+        buyImpactPercent: Math.round(((buyPrice - state.price) / state.price) * 1000000) / 10000,
+        sellImpactPercent: Math.round(((state.price - sellPrice) / state.price) * 1000000) / 10000,
+      });
     }
+    return sizes;
   }
 
-  // Get live WETH price
-  private async updateWethPrice(chain: string): Promise<void> {
-    const provider = this.providers.get(chain);
-    const config = CHAIN_CONFIGS[chain];
+  // configured sizes plus the fee model's notional, which the quote's bid/ask are taken at
+  private getTradeSizes(): number[] {
+    return Array.from(new Set([...TRADE_SIZES_USD, feeModel.getNotional()])).sort((a, b) => a - b);
+  }
 
-    if (!provider || !config) return;
+  // wrapped native price from the chain's native/USDT pair reserves
+  private updateNativePrice(chain: string, reserves: ethers.Result | null): void {
+    const config = CHAIN_CONFIGS[chain];
+    const previous = this.nativePrices.get(chain);
 
     try {
-      const wethUsdtContract = new ethers.Contract(config.wethUsdtPair, UNISWAP_V2_PAIR_ABI, provider);
-
-      const [reserves, token0] = await Promise.all([
-        wethUsdtContract.getReserves(),
-        wethUsdtContract.token0(),
-      ]);
+      if (!reserves) {
+        throw new Error(`getReserves failed on ${config.nativeUsdtPair}`);
+      }
 
       const [reserve0, reserve1] = reserves;
-      const token0Address = ethers.getAddress(token0);
-      const wethAddress = ethers.getAddress(config.wethAddress);
+      const nativeIsToken0 =
+        config.wrappedNativeAddress.toLowerCase() < config.usdtAddress.toLowerCase();
+      const nativeReserve: bigint = nativeIsToken0 ? reserve0 : reserve1;
+      const usdtReserve: bigint = nativeIsToken0 ? reserve1 : reserve0;
+
+      // wrapped native: 18 decimals everywhere, USDT: per chain (18 on BSC)
+      const price =
+        (Number(usdtReserve) / Math.pow(10, config.usdtDecimals)) /
+        (Number(nativeReserve) / Math.pow(10, 18));
+
+      if (!isFinite(price) || price <= 0) {
+        throw new Error('Invalid native price calculation result');
+      }
 
-      // Determine if WETH is token0 or token1
-      const wethIsToken0 = token0Address === wethAddress;
+      this.nativePrices.set(chain, {
+        chain,
+        symbol: config.nativeSymbol,
+        price,
+        updatedAt: Date.now(),
+      });
+    } catch (error) {
+      // keep the last good price, updatedAt shows how stale it is
+      this.nativePrices.set(chain, {
+        chain,
+        symbol: config.nativeSymbol,
+        price: previous?.price ?? null,
+        updatedAt: previous?.updatedAt ?? null,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      console.error(`Failed to update ${config.nativeSymbol} price on ${chain}:`, error);
+    }
+  }
 
-      let wethReserve: bigint;
-      let usdtReserve: bigint;
+  // One-off lookup of a token's deepest V2/V3 pool, used by discovery to check liquidity
+  async findDeepestPool(chain: string, tokenAddress: string): Promise<DeepestPool | null> {
+    if (!this.rpcPools.has(chain)) return null;
 
-      if (wethIsToken0) {
-        wethReserve = reserve0;
-        usdtReserve = reserve1;
-      } else {
-        wethReserve = reserve1;
-        usdtReserve = reserve0;
-      }
+    const token: MonitoredToken = {
+      ticker: tokenAddress,
+      tokenAddress: ethers.getAddress(tokenAddress.toLowerCase()),
+      discoveredAt: 0,
+    };
+    await this.discoverToken(chain, token);
+    if (!token.pools || token.pools.length === 0) return null;
 
-      // WETH: 18 decimals, USDT: 6 decimals
-      const wethReserveAdjusted = Number(wethReserve) / Math.pow(10, 18);
-      const usdtReserveAdjusted = Number(usdtReserve) / Math.pow(10, 6);
+    const { winners } = await this.readDeepestPools(chain, [token]);
+    if (winners.length === 0) return null;
 
-      this.wethPrice = usdtReserveAdjusted / wethReserveAdjusted;
-      this.lastWethUpdate = Date.now();
-    } catch (error) {
-      console.error(`Failed to update WETH price on ${chain}:`, error);
-    }
+    const { candidate, price, depthUsd } = winners[0].state;
+    return { address: candidate.address, version: candidate.version, feeTier: candidate.feeTier, price, depthUsd };
   }
 
-  // Fast token decimals fetch with fallback
-  private async getTokenDecimals(provider: ethers.JsonRpcProvider, tokenAddress: string): Promise<number> {
-    try {
-      const tokenContract = new ethers.Contract(tokenAddress, ERC20_ABI, provider);
-      const decimals = await tokenContract.decimals();
-      return Number(decimals);
-    } catch (error) {
-      console.warn(`Could not fetch decimals for ${tokenAddress}, using 18:`, error);
-      return 18;
-    }
+  getRpcHealth(): Record<string, RpcEndpointHealth[]> {
+    return Object.fromEntries(
+      Array.from(this.rpcPools.entries()).map(([chain, rpcPool]) => [chain, rpcPool.getHealth()])
+    );
   }
 
-  // Start monitoring without any caching for maximum speed
+  getNativePrices(): NativePrice[] {
+    return Object.entries(CHAIN_CONFIGS).map(
+      ([chain, config]) =>
+        this.nativePrices.get(chain) || { chain, symbol: config.nativeSymbol, price: null, updatedAt: null }
+    );
+  }
+
+  // Adds the token to its chain's batched poll loop
   startMonitoring(
     chain: string,
     tokenAddress: string,
     ticker: string,
-    intervalMs: number = 300, // Faster default interval
+    intervalMs: number = 500,
   ): () => void {
-    console.log(`Starting high-speed DEX monitoring: ${chain} - ${ticker} (${tokenAddress})`);
+    if (!this.rpcPools.has(chain)) {
+      console.error(`Chain ${chain} not properly initialized, not monitoring ${ticker}`);
+      return () => {};
+    }
 
-    const fetchPrice = async () => {
-      try {
-        const startTime = Date.now();
-        await this.getTokenPrice(chain, tokenAddress, ticker);
-        const duration = Date.now() - startTime;
-        
-        if (duration > 1000) {
-          console.warn(`Slow price fetch for ${ticker}: ${duration}ms`);
-        }
-      } catch (error) {
-        console.error(`DEX price fetch failed for ${chain}-${ticker}:`, error);
-      }
-    };
+    console.log(`Starting DEX monitoring: ${chain} - ${ticker} (${tokenAddress})`);
 
-    // Initial fetch
-    fetchPrice();
+    if (!this.schedules.has(chain)) {
+      this.schedules.set(chain, this.createSchedule(chain, intervalMs));
+    }
+    const schedule = this.schedules.get(chain)!;
 
-    // Set up high-frequency interval
-    const intervalId = setInterval(fetchPrice, intervalMs);
+    schedule.tokens.set(ticker, {
+      ticker,
+      tokenAddress: ethers.getAddress(tokenAddress.toLowerCase()),
+      discoveredAt: 0,
+    });
+    schedule.intervals.set(ticker, intervalMs);
+    this.reschedule(chain);
+
+    // Initial fetch
+    this.pollChain(chain);
 
     return () => {
-      clearInterval(intervalId);
+      schedule.tokens.delete(ticker);
+      schedule.intervals.delete(ticker);
+      this.reschedule(chain);
       console.log(`Stopped DEX monitoring: ${chain} - ${ticker}`);
     };
   }
 
+  private createSchedule(chain: string, intervalMs: number): ChainSchedule {
+    const config = CHAIN_CONFIGS[chain];
+    const schedule: ChainSchedule = {
+      tokens: new Map(),
+      intervals: new Map(),
+      intervalMs,
+      polling: false,
+      lastHeadAt: 0,
+    };
+
+    if (config.wsUrl) {
+      try {
+        schedule.socket = new ethers.WebSocketProvider(config.wsUrl);
+        schedule.socket.on('block', (blockNumber: number) => this.onBlock(chain, blockNumber));
+        console.log(`Subscribed to ${config.name} new heads`);
+      } catch (error) {
+        // the poll timer keeps prices flowing without the subscription
+        console.error(`Failed to open ${config.name} WS RPC, polling instead:`, error);
+        schedule.socket = undefined;
+      }
+    }
+
+    return schedule;
+  }
+
+  // the chain ticks at the fastest interval any of its tokens asked for
+  private reschedule(chain: string): void {
+    const schedule = this.schedules.get(chain);
+    if (!schedule) return;
+
+    if (schedule.tokens.size === 0) {
+      clearInterval(schedule.timer);
+      schedule.socket?.destroy();
+      this.schedules.delete(chain);
+      return;
+    }
+
+    const intervalMs = Math.min(...schedule.intervals.values());
+    if (schedule.timer && intervalMs === schedule.intervalMs) return;
+
+    clearInterval(schedule.timer);
+    schedule.intervalMs = intervalMs;
+    schedule.timer = setInterval(() => this.pollChain(chain), intervalMs);
+  }
+
   getSupportedChains(): string[] {
     return Object.keys(CHAIN_CONFIGS);
   }
 }
 
-export const dexPriceFetcher = new DEXPriceFetcher();
\ No newline at end of file
+//single global instance
+export const dexPriceFetcher = singleton('dexPriceFetcher', () => new DEXPriceFetcher());
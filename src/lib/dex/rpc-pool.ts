@@ -0,0 +1,165 @@
+import { ethers } from 'ethers';
+
+// a hung endpoint fails over instead of stalling the chain's tick
+const RPC_TIMEOUT_MS = 5000;
+// weight of the newest sample in the latency and error averages
+const EWMA_ALPHA = 0.2;
+// each consecutive failure doubles the cooldown, capped here
+const BASE_COOLDOWN_MS = 1000;
+const MAX_COOLDOWN_MS = 60 * 1000;
+// an endpoint failing every call scores this many times worse than its latency alone
+const ERROR_PENALTY = 10;
+
+interface RpcEndpoint {
+  url: string;
+  provider: ethers.JsonRpcProvider;
+  latencyMs: number | null; // EWMA of successful calls
+  errorRate: number; // EWMA of failures, 0..1
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  cooldownUntil: number;
+  lastError?: string;
+  lastErrorAt?: number;
+  lastSuccessAt?: number;
+}
+
+export interface RpcEndpointHealth {
+  url: string; // API keys redacted
+  active: boolean; // endpoint the next call goes to
+  latencyMs: number | null;
+  errorRate: number;
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  coolingDownUntil: number | null;
+  lastError?: string;
+  lastErrorAt?: number;
+  lastSuccessAt?: number;
+}
+
+// keys live in long path segments (Ankr, Alchemy, Infura) or the query string
+const redactUrl = (url: string): string => {
+  try {
+    const parsed = new URL(url);
+    const path = parsed.pathname
+      .split('/')
+      .map(segment => (segment.length >= 20 ? '***' : segment))
+      .join('/');
+    return `${parsed.origin}${path}${parsed.search ? '?***' : ''}`;
+  } catch {
+    return '***';
+  }
+};
+
+// Endpoints for one chain, ranked by latency and error rate. Calls go to the best endpoint
+// and fail over down the list; failing endpoints cool down with exponential backoff
+export class RpcPool {
+  private endpoints: RpcEndpoint[];
+
+  constructor(private name: string, urls: string[]) {
+    this.endpoints = urls.map(url => ({
+      url,
+      provider: new ethers.JsonRpcProvider(url, undefined, { staticNetwork: true }),
+      latencyMs: null,
+      errorRate: 0,
+      requests: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      cooldownUntil: 0,
+    }));
+  }
+
+  // unsampled endpoints score 0 so each gets tried once before the ranking settles
+  private score(endpoint: RpcEndpoint): number {
+    return (endpoint.latencyMs ?? 0) * (1 + ERROR_PENALTY * endpoint.errorRate);
+  }
+
+  // healthy endpoints best first, then cooling ones by soonest recovery as a last resort
+  private ranked(): RpcEndpoint[] {
+    const now = Date.now();
+    const available = this.endpoints.filter(endpoint => endpoint.cooldownUntil <= now);
+    const cooling = this.endpoints.filter(endpoint => endpoint.cooldownUntil > now);
+
+    return [
+      ...available.sort((a, b) => this.score(a) - this.score(b)),
+      ...cooling.sort((a, b) => a.cooldownUntil - b.cooldownUntil),
+    ];
+  }
+
+  async call<T>(fn: (provider: ethers.JsonRpcProvider) => Promise<T>): Promise<T> {
+    let lastError: unknown;
+
+    for (const endpoint of this.ranked()) {
+      const startTime = Date.now();
+      endpoint.requests++;
+
+      let timeout: ReturnType<typeof setTimeout> | undefined;
+      try {
+        const result = await Promise.race([
+          fn(endpoint.provider),
+          new Promise<never>((_, reject) => {
+            timeout = setTimeout(() => reject(new Error(`Timed out after ${RPC_TIMEOUT_MS}ms`)), RPC_TIMEOUT_MS);
+          }),
+        ]);
+        this.recordSuccess(endpoint, Date.now() - startTime);
+        return result;
+      } catch (error) {
+        // a revert is the call's fault, not the endpoint's
+        if (ethers.isError(error, 'CALL_EXCEPTION')) {
+          this.recordSuccess(endpoint, Date.now() - startTime);
+          throw error;
+        }
+        this.recordFailure(endpoint, error);
+        lastError = error;
+      } finally {
+        clearTimeout(timeout);
+      }
+    }
+
+    throw lastError ?? new Error(`No RPC endpoints configured for ${this.name}`);
+  }
+
+  private recordSuccess(endpoint: RpcEndpoint, latencyMs: number): void {
+    endpoint.latencyMs =
+      endpoint.latencyMs === null ? latencyMs : endpoint.latencyMs + EWMA_ALPHA * (latencyMs - endpoint.latencyMs);
+    endpoint.errorRate *= 1 - EWMA_ALPHA;
+    endpoint.consecutiveFailures = 0;
+    endpoint.cooldownUntil = 0;
+    endpoint.lastSuccessAt = Date.now();
+  }
+
+  private recordFailure(endpoint: RpcEndpoint, error: unknown): void {
+    endpoint.failures++;
+    endpoint.consecutiveFailures++;
+    endpoint.errorRate += EWMA_ALPHA * (1 - endpoint.errorRate);
+    endpoint.cooldownUntil =
+      Date.now() + Math.min(MAX_COOLDOWN_MS, BASE_COOLDOWN_MS * 2 ** (endpoint.consecutiveFailures - 1));
+    endpoint.lastError = error instanceof Error ? error.message : String(error);
+    endpoint.lastErrorAt = Date.now();
+
+    console.warn(
+      `${this.name} RPC ${redactUrl(endpoint.url)} failed (${endpoint.consecutiveFailures} in a row), failing over:`,
+      endpoint.lastError
+    );
+  }
+
+  getHealth(): RpcEndpointHealth[] {
+    const active = this.ranked()[0];
+    const now = Date.now();
+
+    return this.endpoints.map(endpoint => ({
+      url: redactUrl(endpoint.url),
+      active: endpoint === active,
+      latencyMs: endpoint.latencyMs === null ? null : Math.round(endpoint.latencyMs),
+      errorRate: Math.round(endpoint.errorRate * 1000) / 1000,
+      requests: endpoint.requests,
+      failures: endpoint.failures,
+      consecutiveFailures: endpoint.consecutiveFailures,
+      coolingDownUntil: endpoint.cooldownUntil > now ? endpoint.cooldownUntil : null,
+      lastError: endpoint.lastError,
+      lastErrorAt: endpoint.lastErrorAt,
+      lastSuccessAt: endpoint.lastSuccessAt,
+    }));
+  }
+}
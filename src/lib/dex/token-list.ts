@@ -0,0 +1,58 @@
+// Canonical contracts for widely traded tokens, checked before exchange metadata since
+// bridged or spoofed tokens often share a ticker with the real one
+export const TOKEN_LIST: Record<string, Partial<Record<string, string>>> = {
+  AAVE: {
+    eth: '0x7Fc66500c84A76Ad7e9c93437bFc5Ac33E2DDaE9',
+    polygon: '0xD6DF932A45C0f255f85145f286eA0b292B21C90B',
+  },
+  ARB: {
+    eth: '0xB50721BCf8d664c30412Cfbc6cf7a15145234ad1',
+    arbitrum: '0x912CE59144191C1204E64559FE8253a0e49E6548',
+  },
+  CAKE: {
+    bsc: '0x0E09FaBB73Bd3Ade0a17ECC321fD13a19e81cE82',
+  },
+  CRV: {
+    eth: '0xD533a949740bb3306d119CC777fa900bA034cd52',
+  },
+  FLOKI: {
+    eth: '0xcf0C122c6b73ff809C693DB761e7BaeBe62b6a2E',
+    bsc: '0xfb5B838b6cfEEdC2873aB27866079AC55363D37E',
+  },
+  GMX: {
+    arbitrum: '0xfc5A1A6EB076a2C7aD06eD22C90d7E710E35ad0a',
+  },
+  LDO: {
+    eth: '0x5A98FcBEA516Cf06857215779Fd812CA3beF1B32',
+  },
+  LINK: {
+    eth: '0x514910771AF9Ca656af840dff83E8264EcF986CA',
+    bsc: '0xF8A0BF9cF54Bb92F17374d9e9A321E6a111a51bD',
+    polygon: '0x53E0bca35eC356BD5ddDFebbD1Fc0fD03FaBad39',
+    arbitrum: '0xf97f4df75117a78c1A5a0DBb814Af92458539FB4',
+  },
+  MKR: {
+    eth: '0x9f8F72aA9304c8B593d555F12eF6589cC3A579A2',
+  },
+  PENDLE: {
+    eth: '0x808507121B80c02388fAd14726482e061B8da827',
+    arbitrum: '0x0c880f6761F1af8d9Aa9C466984b80DAb9a8c9e8',
+  },
+  PEPE: {
+    eth: '0x6982508145454Ce325dDbE47a25d4ec3d2311933',
+  },
+  SHIB: {
+    eth: '0x95aD61b0a150d79219dCF64E1E6Cc01f0B64C4cE',
+  },
+  UNI: {
+    eth: '0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984',
+    bsc: '0xBf5140A22578168FD562DCcF235E5D43A02ce9B1',
+    polygon: '0xb33EaAd8d922B1083446DC23f610c2567fB5180f',
+    arbitrum: '0xFa7F8980b0f1E64A2062791cc3b0871572f1F7f0',
+  },
+  WBTC: {
+    eth: '0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599',
+    polygon: '0x1BFD67037B42Cf73acF2047067bd4F2C47D9BfD6',
+    arbitrum: '0x2f2a2543B76A4166549F7aaB2e75Bef0aefC5B0f',
+  },
+};
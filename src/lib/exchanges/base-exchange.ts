@@ -1,6 +1,25 @@
 // lib/exchanges/base-exchange.ts
-import { PriceData, ConnectionStatus, MarketType } from '../types';
+import {
+  PriceData,
+  ConnectionStatus,
+  MarketType,
+  OrderBookLevel,
+  OrderBookUpdate,
+  FundingField,
+  FundingUpdate,
+  AssetNetwork,
+} from '../types';
 import { priceStore } from '../price-store';
+import { orderBookStore } from '../order-book';
+
+const FUNDING_FIELDS: FundingField[] = [
+  'fundingRate',
+  'predictedFundingRate',
+  'nextFundingTime',
+  'fundingIntervalHours',
+  'markPrice',
+  'indexPrice',
+];
 
 export abstract class BaseExchange {
   protected ws?: WebSocket;
@@ -9,9 +28,23 @@ export abstract class BaseExchange {
   protected maxReconnectAttempts = 5;
   protected reconnectDelay = 1000;
   protected isConnecting = new Set<MarketType>();
-  protected ticker = '';
+  //tickers multiplexed on each market's socket
+  protected subscriptions = new Map<MarketType, Set<string>>();
+  //venue symbol (uppercased) -> ticker, used to route incoming frames
+  private symbolIndex = new Map<MarketType, Map<string, string>>();
+  //latest funding frame per futures ticker, merged into every price published after it
+  private funding = new Map<string, FundingUpdate>();
+  //REST funding polls for venues whose sockets lack next funding time or interval, 0 disables
+  protected fundingPollIntervalMs = 0;
+  private fundingPollers = new Map<string, ReturnType<typeof setInterval>>();
+  //futures depth quoted in contracts, scaled by fetchContractSize before it reaches the book
+  protected futuresSizedInContracts = false;
+  //base units per contract, per futures ticker
+  private contractSizes = new Map<string, number>();
+  private contractSizeLoads = new Set<string>();
   protected exchangeName = '';
   protected supportedMarkets: MarketType[] = ['spot'];
+  protected depthLevels = 20;
 
   //marking stream/sub connections
   protected requiresSubscription: { [key in MarketType]?: boolean } = {
@@ -21,6 +54,11 @@ export abstract class BaseExchange {
 
   protected autoPong = true;
 
+  //client-initiated keepalive for venues that drop idle sockets, per market where they differ
+  protected heartbeatMessage?: string | { [key in MarketType]?: string };
+  protected heartbeatIntervalMs = 20000;
+  private heartbeatTimers = new Map<MarketType, ReturnType<typeof setInterval>>();
+
   //spot
   protected onMessageBound = this.onMessage.bind(this);
   protected onOpenBound = this.onOpen.bind(this);
@@ -37,25 +75,68 @@ export abstract class BaseExchange {
     this.exchangeName = exchangeName;
     this.supportedMarkets = supportedMarkets;
 
-    //reconnect attempts for each market type
+    //reconnect attempts and subscription sets for each market type
     supportedMarkets.forEach((market) => {
       this.reconnectAttempts.set(market, 0);
+      this.subscriptions.set(market, new Set());
+      this.symbolIndex.set(market, new Map());
     });
   }
 
-  abstract connectSpot(ticker: string): Promise<void>;
-  abstract connectFutures?(ticker: string): Promise<void>;
+  abstract connectSpot(): Promise<void>;
+  abstract connectFutures?(): Promise<void>;
   abstract parseMessage(data: unknown, marketType: MarketType): PriceData | null;
   abstract subscribe(ticker: string, marketType: MarketType): void;
+  abstract unsubscribe(ticker: string, marketType: MarketType): void;
+  //venue symbol for a ticker, must match the symbol parsers put on PriceData
+  abstract getSymbol(ticker: string, marketType: MarketType): string;
+
+  //L2 depth frames (top depthLevels) subscribed alongside the ticker; null for anything else
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  protected parseDepth(data: unknown, marketType: MarketType): OrderBookUpdate | null {
+    return null;
+  }
+
+  //funding/mark frames for venues that stream them separately from the ticker; null for anything else
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  protected parseFunding(data: unknown, marketType: MarketType): FundingUpdate | null {
+    return null;
+  }
+
+  //deposit/withdraw networks and contracts the venue reports for an asset, null where the
+  //venue has no public endpoint for it
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  async getAssetNetworks(ticker: string): Promise<AssetNetwork[] | null> {
+    return null;
+  }
+
+  //base units per contract for one futures ticker, loaded on subscribe when futuresSizedInContracts
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  protected async fetchContractSize(ticker: string): Promise<number | null> {
+    return null;
+  }
+
+  //REST funding snapshot for one futures ticker, polled every fundingPollIntervalMs
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  protected async fetchFunding(ticker: string): Promise<FundingUpdate | null> {
+    return null;
+  }
+
+  //venues send funding fields as strings, sometimes empty
+  protected parseOptional(value: unknown): number | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    const parsed = typeof value === 'number' ? value : parseFloat(String(value));
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+
   abstract checkTokenListing(ticker: string): Promise<{
     spot: boolean;
     futures: boolean;
     symbol?: string;
   }>;
 
+  //adds the ticker to each market's socket, opening the socket on first use
   async connect(ticker: string, marketTypes: MarketType[] = ['spot']): Promise<void> {
-    this.ticker = ticker;
-
     const validMarketTypes = marketTypes.filter((type) => this.supportedMarkets.includes(type));
 
     if (validMarketTypes.length === 0) {
@@ -67,18 +148,32 @@ export abstract class BaseExchange {
     }
 
     const connectionPromises = validMarketTypes.map(async (marketType) => {
+      const tickers = this.subscriptions.get(marketType)!;
+      const isNew = !tickers.has(ticker);
+
+      tickers.add(ticker);
+      this.symbolIndex.get(marketType)!.set(this.getSymbol(ticker, marketType).toUpperCase(), ticker);
+      if (marketType === 'futures') {
+        this.startFundingPoll(ticker);
+        this.loadContractSize(ticker);
+      }
+
       try {
-        if (marketType === 'spot') {
-          await this.connectSpot(ticker);
-        } else if (marketType === 'futures' && this.connectFutures) {
-          await this.connectFutures(ticker);
+        if (this.isConnected(marketType)) {
+          //socket already open, only the new ticker needs a subscribe frame
+          if (isNew) this.subscribe(ticker, marketType);
+          this.updateConnectionStatus(marketType, 'connected', undefined, [ticker]);
+        } else if (!this.isConnecting.has(marketType)) {
+          await this.openSocket(marketType);
         }
+        //otherwise the pending socket subscribes every ticker once it opens
       } catch (error) {
         console.error(`Failed to connect to ${this.exchangeName} ${marketType}:`, error);
         this.updateConnectionStatus(
           marketType,
           'error',
           error instanceof Error ? error.message : 'Connection failed',
+          [ticker],
         );
       }
     });
@@ -86,14 +181,111 @@ export abstract class BaseExchange {
     await Promise.allSettled(connectionPromises);
   }
 
-  protected setupWebSocket(url: string, ticker: string, marketType: MarketType = 'spot'): void {
+  //drops the ticker from each market's socket, closing the socket once nothing is left on it
+  public removeTicker(ticker: string, marketTypes: MarketType[] = this.supportedMarkets): void {
+    for (const marketType of marketTypes) {
+      const tickers = this.subscriptions.get(marketType);
+      if (!tickers?.delete(ticker)) continue;
+
+      this.symbolIndex.get(marketType)!.delete(this.getSymbol(ticker, marketType).toUpperCase());
+      if (marketType === 'futures') {
+        this.stopFundingPoll(ticker);
+        this.funding.delete(ticker);
+        this.contractSizes.delete(ticker);
+      }
+
+      if (tickers.size === 0) {
+        this.disconnect([marketType]);
+      } else if (this.isConnected(marketType)) {
+        try {
+          this.unsubscribe(ticker, marketType);
+        } catch (err) {
+          console.error(`${this.exchangeName} unsubscribe error:`, err);
+        }
+      }
+
+      this.updateConnectionStatus(marketType, 'disconnected', undefined, [ticker]);
+    }
+  }
+
+  private startFundingPoll(ticker: string): void {
+    if (!this.fundingPollIntervalMs || this.fundingPollers.has(ticker)) return;
+
+    const poll = async () => {
+      try {
+        const funding = await this.fetchFunding(ticker);
+        //the ticker may have been removed while the request was in flight
+        if (funding && this.fundingPollers.has(ticker)) {
+          this.publishFunding(ticker, 'futures', funding);
+        }
+      } catch (error) {
+        console.warn(`${this.exchangeName} funding poll failed for ${ticker}:`, error);
+      }
+    };
+
+    this.fundingPollers.set(ticker, setInterval(poll, this.fundingPollIntervalMs));
+    poll();
+  }
+
+  private stopFundingPoll(ticker: string): void {
+    clearInterval(this.fundingPollers.get(ticker));
+    this.fundingPollers.delete(ticker);
+  }
+
+  //a failed load is retried on the next subscribe (reconnect); until then the book stays empty
+  //rather than holding contract counts
+  private loadContractSize(ticker: string): void {
+    if (!this.futuresSizedInContracts || this.contractSizes.has(ticker)) return;
+    if (this.contractSizeLoads.has(ticker)) return;
+
+    this.contractSizeLoads.add(ticker);
+    this.fetchContractSize(ticker)
+      .then((size) => {
+        if (!size || size <= 0) {
+          console.warn(`${this.exchangeName} has no contract size for ${ticker}, futures depth skipped`);
+        } else if (this.subscriptions.get('futures')?.has(ticker)) {
+          //the ticker may have been removed while the request was in flight
+          this.contractSizes.set(ticker, size);
+        }
+      })
+      .catch((error) => {
+        console.warn(`${this.exchangeName} contract size fetch failed for ${ticker}:`, error);
+      })
+      .finally(() => this.contractSizeLoads.delete(ticker));
+  }
+
+  //contract-sized futures levels in base units, null until the contract size has loaded
+  private toBaseUnits(ticker: string, marketType: MarketType, update: OrderBookUpdate): OrderBookUpdate | null {
+    if (marketType !== 'futures' || !this.futuresSizedInContracts) return update;
+
+    const contractSize = this.contractSizes.get(ticker);
+    if (!contractSize) return null;
+
+    const scale = (levels: OrderBookLevel[]): OrderBookLevel[] =>
+      levels.map(([price, size]) => [price, size * contractSize]);
+
+    return { ...update, bids: scale(update.bids), asks: scale(update.asks) };
+  }
+
+  public getTickers(marketType: MarketType = 'spot'): string[] {
+    return Array.from(this.subscriptions.get(marketType) || []);
+  }
+
+  private async openSocket(marketType: MarketType): Promise<void> {
+    if (marketType === 'spot') {
+      await this.connectSpot();
+    } else if (marketType === 'futures' && this.connectFutures) {
+      await this.connectFutures();
+    }
+  }
+
+  protected setupWebSocket(url: string, marketType: MarketType = 'spot'): void {
     const ws = marketType === 'spot' ? 'ws' : 'futuresWs';
 
     if (this[ws] && this[ws]!.readyState === WebSocket.OPEN) {
       this[ws]!.close();
     }
 
-    this.ticker = ticker;
     this.isConnecting.add(marketType);
 
     try {
@@ -124,7 +316,7 @@ export abstract class BaseExchange {
   }
 
   private onOpen(): void {
-    // console.log(`${this.exchangeName} SPOT connected for ${this.ticker}`);
+    // console.log(`${this.exchangeName} SPOT connected`);
     this.handleConnectionSuccess('spot');
   }
 
@@ -143,7 +335,7 @@ export abstract class BaseExchange {
   }
 
   private onFuturesOpen(): void {
-    // console.log(`${this.exchangeName} FUTURES connected for ${this.ticker}`);
+    // console.log(`${this.exchangeName} FUTURES connected`);
     this.handleConnectionSuccess('futures');
   }
 
@@ -166,11 +358,16 @@ export abstract class BaseExchange {
     this.reconnectAttempts.set(marketType, 0);
 
     this.updateConnectionStatus(marketType, 'connected');
+    this.startHeartbeat(marketType);
 
-    try {
-      this.subscribe(this.ticker, marketType);
-    } catch (err) {
-      console.error(`${this.exchangeName} subscribe error:`, err);
+    //fresh socket (first open or reconnect): subscribe everything in the set
+    for (const ticker of this.subscriptions.get(marketType) || []) {
+      if (marketType === 'futures') this.loadContractSize(ticker);
+      try {
+        this.subscribe(ticker, marketType);
+      } catch (err) {
+        console.error(`${this.exchangeName} subscribe error:`, err);
+      }
     }
   }
 
@@ -183,22 +380,23 @@ export abstract class BaseExchange {
         parsedData = await raw.arrayBuffer();
       }
 
+      if (parsedData instanceof ArrayBuffer || parsedData instanceof Uint8Array) {
+        parsedData = await this.decodeBinaryMessage(parsedData);
+      }
+
       if (parsedData instanceof ArrayBuffer || parsedData instanceof Uint8Array) {
         //pb
-        const priceUpdate = this.parseMessage(parsedData, marketType);
-        if (priceUpdate) {
-          const exchangeKey =
-            marketType === 'spot' ? this.exchangeName : `${this.exchangeName}-futures`;
-          priceStore.updatePrice(this.ticker, exchangeKey, priceUpdate);
-        }
+        this.dispatch(parsedData, marketType);
         return;
       }
 
-      if (typeof raw === 'string') {
+      if (typeof parsedData === 'string') {
+        if (this.handlePing(parsedData, marketType)) return;
+
         try {
-          parsedData = JSON.parse(raw);
+          parsedData = JSON.parse(parsedData);
         } catch {
-          console.warn('Failed to parse JSON:', raw);
+          console.warn('Failed to parse JSON:', parsedData);
           return;
         }
       }
@@ -214,39 +412,115 @@ export abstract class BaseExchange {
         'data' in parsedData &&
         ('stream' in parsedData || 'channel' in parsedData)
       ) {
-        const innerResult = this.parseMessage(parsedData.data, marketType);
-        if (innerResult) {
-          const exchangeKey =
-            marketType === 'spot' ? this.exchangeName : `${this.exchangeName}-futures`;
-          priceStore.updatePrice(this.ticker, exchangeKey, innerResult);
-        }
+        this.dispatch(parsedData.data, marketType, this.getEnvelopeSymbol(parsedData));
         return;
       }
 
       if (Array.isArray(parsedData)) {
         for (const item of parsedData) {
-          const parsed = this.parseMessage(item, marketType);
-          if (parsed) {
-            const exchangeKey =
-              marketType === 'spot' ? this.exchangeName : `${this.exchangeName}-futures`;
-            priceStore.updatePrice(this.ticker, exchangeKey, parsed);
-          }
+          this.dispatch(item, marketType);
         }
         return;
       }
 
-      const priceUpdate = this.parseMessage(parsedData, marketType);
-      if (priceUpdate) {
-        const exchangeKey =
-          marketType === 'spot' ? this.exchangeName : `${this.exchangeName}-futures`;
-        priceStore.updatePrice(this.ticker, exchangeKey, priceUpdate);
-      }
+      this.dispatch(parsedData, marketType);
     } catch (error) {
       console.warn(`${this.exchangeName} ${marketType} message handle error:`, error);
     }
   }
 
+  //depth frames feed the local order book, everything else goes through parseMessage
+  //frames are routed to a ticker by their symbol, falling back to the envelope's
+  private dispatch(data: unknown, marketType: MarketType, envelopeSymbol?: string): void {
+    const depth = this.parseDepth(data, marketType);
+    if (depth) {
+      const ticker = this.resolveTicker(depth.symbol || envelopeSymbol, marketType);
+      const book = ticker && this.toBaseUnits(ticker, marketType, depth);
+      if (ticker && book) {
+        orderBookStore.apply(ticker, this.getExchangeKey(marketType), book);
+      }
+      return;
+    }
+
+    const funding = this.parseFunding(data, marketType);
+    if (funding) {
+      const ticker = this.resolveTicker(funding.symbol || envelopeSymbol, marketType);
+      if (ticker) {
+        this.publishFunding(ticker, marketType, funding);
+      }
+      return;
+    }
+
+    const priceUpdate = this.parseMessage(data, marketType);
+    if (priceUpdate) {
+      const ticker = this.resolveTicker(priceUpdate.symbol || envelopeSymbol, marketType);
+      if (ticker) {
+        this.publishPrice(ticker, marketType, priceUpdate);
+      }
+    }
+  }
+
+  private resolveTicker(symbol: string | undefined, marketType: MarketType): string | undefined {
+    if (!symbol) return undefined;
+    return this.symbolIndex.get(marketType)?.get(symbol.toUpperCase());
+  }
+
+  //symbol carried by a { data, stream | channel } envelope, for payloads that lack one
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  protected getEnvelopeSymbol(envelope: any): string | undefined {
+    return typeof envelope.symbol === 'string' ? envelope.symbol : undefined;
+  }
+
+  private getExchangeKey(marketType: MarketType): string {
+    return marketType === 'spot' ? this.exchangeName : `${this.exchangeName}-futures`;
+  }
+
+  private publishPrice(ticker: string, marketType: MarketType, update: PriceData): void {
+    const exchangeKey = this.getExchangeKey(marketType);
+    const previous = priceStore.getPrices(ticker).get(exchangeKey);
+
+    //ticker and book-ticker streams arrive separately, keep the half this update lacks
+    const merged: PriceData = previous
+      ? {
+          ...update,
+          volume: update.volume ?? previous.volume,
+          bid: update.bid ?? previous.bid,
+          ask: update.ask ?? previous.ask,
+          bidSize: update.bidSize ?? previous.bidSize,
+          askSize: update.askSize ?? previous.askSize,
+        }
+      : { ...update };
+
+    const funding = marketType === 'futures' ? this.funding.get(ticker) : undefined;
+    for (const field of FUNDING_FIELDS) {
+      merged[field] = update[field] ?? funding?.[field] ?? previous?.[field];
+    }
+
+    priceStore.updatePrice(ticker, exchangeKey, merged);
+  }
+
+  //funding alone doesn't move the price, re-publish the last one with the new fields
+  private publishFunding(ticker: string, marketType: MarketType, update: FundingUpdate): void {
+    const latest = { ...this.funding.get(ticker) };
+    for (const field of FUNDING_FIELDS) {
+      if (update[field] !== undefined) latest[field] = update[field];
+    }
+    this.funding.set(ticker, latest);
+
+    const previous = priceStore.getPrices(ticker).get(this.getExchangeKey(marketType));
+    if (previous) {
+      this.publishPrice(ticker, marketType, { ...previous, ...latest, timestamp: Date.now() });
+    }
+  }
+
+  //binary frames go to parseMessage as-is unless the venue wraps them (e.g. gzip)
+  protected async decodeBinaryMessage(data: ArrayBuffer | Uint8Array): Promise<unknown> {
+    return data;
+  }
+
   private handleDisconnection(event: CloseEvent, marketType: MarketType): void {
+    this.isConnecting.delete(marketType);
+    this.stopHeartbeat(marketType);
     this.updateConnectionStatus(marketType, 'disconnected');
 
     if (
@@ -279,13 +553,9 @@ export abstract class BaseExchange {
     );
 
     setTimeout(async () => {
-      if (this.ticker) {
+      if (this.subscriptions.get(marketType)?.size) {
         try {
-          if (marketType === 'spot') {
-            await this.connectSpot(this.ticker);
-          } else if (marketType === 'futures' && this.connectFutures) {
-            await this.connectFutures(this.ticker);
-          }
+          await this.openSocket(marketType);
         } catch (error) {
           console.error(`${this.exchangeName} ${marketType} reconnection failed:`, error);
         }
@@ -293,8 +563,30 @@ export abstract class BaseExchange {
     }, delay);
   }
 
+  private startHeartbeat(marketType: MarketType): void {
+    this.stopHeartbeat(marketType);
+    const message =
+      typeof this.heartbeatMessage === 'string' ? this.heartbeatMessage : this.heartbeatMessage?.[marketType];
+    if (!message) return;
+
+    const timer = setInterval(() => {
+      this.sendMessage(message, marketType);
+    }, this.heartbeatIntervalMs);
+
+    this.heartbeatTimers.set(marketType, timer);
+  }
+
+  private stopHeartbeat(marketType: MarketType): void {
+    const timer = this.heartbeatTimers.get(marketType);
+    if (timer) {
+      clearInterval(timer);
+      this.heartbeatTimers.delete(marketType);
+    }
+  }
+
   private handleConnectionTimeout(marketType: MarketType): void {
     console.warn(`${this.exchangeName} ${marketType} connection timeout`);
+    this.isConnecting.delete(marketType);
     this.updateConnectionStatus(marketType, 'error', 'Connection timeout');
     this.scheduleReconnect(marketType);
   }
@@ -304,27 +596,41 @@ export abstract class BaseExchange {
     this.updateConnectionStatus(marketType, 'error', message);
   }
 
+  //socket state applies to every ticker on it, so one status goes out per ticker
   private updateConnectionStatus(
     marketType: MarketType,
     status: ConnectionStatus['status'],
     errorMessage?: string,
+    tickers: Iterable<string> = this.subscriptions.get(marketType) || [],
   ): void {
-    const exchangeKey = marketType === 'spot' ? this.exchangeName : `${this.exchangeName}-futures`;
-
-    const connectionStatus: ConnectionStatus = {
-      exchange: exchangeKey,
-      ticker: this.ticker,
-      status,
-      lastUpdate: Date.now(),
-      errorMessage,
-      marketType,
-    };
-
-    this.onStatusUpdate?.(connectionStatus);
+    const exchangeKey = this.getExchangeKey(marketType);
+
+    for (const ticker of tickers) {
+      const connectionStatus: ConnectionStatus = {
+        exchange: exchangeKey,
+        ticker,
+        status,
+        lastUpdate: Date.now(),
+        errorMessage,
+        marketType,
+      };
+
+      this.onStatusUpdate?.(connectionStatus);
+    }
   }
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   protected handlePing(raw: any, marketType: MarketType): boolean {
+    //plain-text heartbeats
+    if (typeof raw === 'string') {
+      if (raw === 'pong') return true;
+      if (this.autoPong && raw === 'ping') {
+        this.sendMessage('pong', marketType);
+        return true;
+      }
+      return false;
+    }
+
     if (this.autoPong && raw && typeof raw === 'object') {
       if ('ping' in raw) {
         console.log(`[${this.exchangeName}] (${marketType}) Received PING, replying with PONG`);
@@ -355,10 +661,11 @@ export abstract class BaseExchange {
       }
 
       this.reconnectAttempts.set(marketType, 0);
-    }
+      this.isConnecting.delete(marketType);
 
-    if (this.ticker) {
-      await this.connect(this.ticker, validMarketTypes);
+      if (this.subscriptions.get(marketType)?.size) {
+        await this.openSocket(marketType);
+      }
     }
   }
 
@@ -366,6 +673,9 @@ export abstract class BaseExchange {
     const validMarketTypes = marketTypes.filter((type) => this.supportedMarkets.includes(type));
 
     for (const marketType of validMarketTypes) {
+      this.stopHeartbeat(marketType);
+      this.isConnecting.delete(marketType);
+
       if (marketType === 'spot' && this.ws) {
         this.ws.close(1000, 'Manual disconnect');
         this.ws = undefined;
@@ -375,6 +685,10 @@ export abstract class BaseExchange {
         this.futuresWs = undefined;
         this.updateConnectionStatus(marketType, 'disconnected');
       }
+
+      this.subscriptions.get(marketType)?.clear();
+      this.symbolIndex.get(marketType)?.clear();
+      if (marketType === 'futures') this.contractSizes.clear();
     }
   }
 
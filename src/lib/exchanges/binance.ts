@@ -1,10 +1,25 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { BaseExchange } from './base-exchange';
-import { PriceData, BinanceTickerMessage, MarketType } from '../types';
+import {
+  PriceData,
+  BinanceTickerMessage,
+  BinanceBookTickerMessage,
+  BinanceMarkPriceMessage,
+  MarketType,
+  OrderBookUpdate,
+  FundingUpdate,
+} from '../types';
+import { DEFAULT_FUNDING_INTERVAL_HOURS } from '../carry';
 
 export class BinanceExchange extends BaseExchange {
+  //SUBSCRIBE/UNSUBSCRIBE requests need a unique id per socket
+  private requestId = 0;
+
   constructor() {
     super('binance', ['spot', 'futures']);
+    this.requiresSubscription = { spot: true, futures: true };
+    //intervals rarely change and fundingInfo shares a 500 per 5 minutes limit per IP
+    this.fundingPollIntervalMs = 5 * 60 * 1000;
   }
 
   async checkTokenListing(ticker: string): Promise<{
@@ -41,22 +56,71 @@ export class BinanceExchange extends BaseExchange {
     }
   }
 
-  async connectSpot(ticker: string): Promise<void> {
-    const symbol = ticker.toLowerCase();
+  //combined-stream endpoints: frames arrive as { stream, data } and streams are added with SUBSCRIBE
+  async connectSpot(): Promise<void> {
+    const wsUrl = `wss://stream.binance.com:9443/stream`;
+    this.setupWebSocket(wsUrl, 'spot');
+  }
 
-    const streams = [`${symbol}usdt@ticker`];
+  async connectFutures(): Promise<void> {
+    const wsUrl = `wss://fstream.binance.com/stream`;
+    this.setupWebSocket(wsUrl, 'futures');
+  }
 
-    const wsUrl = `wss://stream.binance.com:9443/ws/${streams.join('/')}`;
-    this.setupWebSocket(wsUrl, ticker, 'spot');
+  getSymbol(ticker: string): string {
+    return `${ticker.toUpperCase()}USDT`;
   }
 
-  async connectFutures(ticker: string): Promise<void> {
-    const symbol = ticker.toLowerCase();
+  //spot depth payloads carry no symbol, the stream name ("btcusdt@depth20@100ms") does
+  protected getEnvelopeSymbol(envelope: any): string | undefined {
+    return typeof envelope.stream === 'string' ? envelope.stream.split('@')[0] : undefined;
+  }
 
-    const streams = [`${symbol}usdt@ticker`];
+  //partial depth streams push a full top-N snapshot every 100ms
+  //spot: { lastUpdateId, bids, asks }, futures: { e: 'depthUpdate', E, b, a }
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  protected parseDepth(data: any, marketType: MarketType): OrderBookUpdate | null {
+    if (!data || typeof data !== 'object') return null;
 
-    const wsUrl = `wss://fstream.binance.com/ws/${streams.join('/')}`;
-    this.setupWebSocket(wsUrl, ticker, 'futures');
+    const bids = data.e === 'depthUpdate' ? data.b : data.bids;
+    const asks = data.e === 'depthUpdate' ? data.a : data.asks;
+    if (!Array.isArray(bids) || !Array.isArray(asks)) return null;
+
+    return {
+      type: 'snapshot',
+      bids: bids.map(([p, q]: string[]) => [parseFloat(p), parseFloat(q)]),
+      asks: asks.map(([p, q]: string[]) => [parseFloat(p), parseFloat(q)]),
+      timestamp: data.E || Date.now(),
+    };
+  }
+
+  //markPrice has rate and next funding time, the interval (1h/4h/8h) is REST only. fundingInfo
+  //lists just the symbols whose interval or caps were adjusted, the rest settle every 8h
+  protected async fetchFunding(ticker: string): Promise<FundingUpdate | null> {
+    const response = await fetch('https://fapi.binance.com/fapi/v1/fundingInfo');
+    if (!response.ok) return null;
+
+    const symbol = this.getSymbol(ticker);
+    const info = (await response.json()).find?.((entry: any) => entry.symbol === symbol);
+
+    return {
+      fundingIntervalHours: this.parseOptional(info?.fundingIntervalHours) ?? DEFAULT_FUNDING_INTERVAL_HOURS,
+    };
+  }
+
+  //futures markPrice stream, pushed every second
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  protected parseFunding(data: any, marketType: MarketType): FundingUpdate | null {
+    if (!data || data.e !== 'markPriceUpdate') return null;
+
+    const update = data as BinanceMarkPriceMessage;
+    return {
+      symbol: update.s,
+      fundingRate: this.parseOptional(update.r),
+      nextFundingTime: update.T || undefined,
+      markPrice: this.parseOptional(update.p),
+      indexPrice: this.parseOptional(update.i),
+    };
   }
 
   parseMessage(data: any, marketType: MarketType): PriceData | null {
@@ -67,7 +131,8 @@ export class BinanceExchange extends BaseExchange {
       if (data.e === '24hrTicker') {
         return this.parseTicker(data, marketType);
       }
-      if (data.e === 'bookTicker') {
+      //spot bookTicker frames have no event type
+      if (data.e === 'bookTicker' || (!data.e && 'b' in data && 'a' in data)) {
         return this.parseBookTicker(data, marketType);
       }
       if (Array.isArray(data)) {
@@ -95,27 +160,68 @@ export class BinanceExchange extends BaseExchange {
       timestamp: data.E || Date.now(),
       type: marketType,
       volume: parseFloat(data.v || '0'),
+      ...(data.b && data.a
+        ? {
+            bid: parseFloat(data.b),
+            ask: parseFloat(data.a),
+            bidSize: parseFloat(data.B || '0'),
+            askSize: parseFloat(data.A || '0'),
+          }
+        : {}),
     };
   }
 
-  private parseBookTicker(data: any, marketType: MarketType): PriceData {
+  private parseBookTicker(data: BinanceBookTickerMessage, marketType: MarketType): PriceData {
     const bidPrice = parseFloat(data.b);
     const askPrice = parseFloat(data.a);
     const midPrice = (bidPrice + askPrice) / 2;
 
-    console.log(`[Binance] Book price: ${midPrice}`);
+    // console.log(`[Binance] Book price: ${midPrice}`);
 
     return {
       exchange: marketType === 'spot' ? 'binance' : 'binance-futures',
       symbol: data.s,
       price: midPrice,
-      timestamp: Date.now(),
+      timestamp: data.E || Date.now(),
       type: marketType,
-      volume: 0,
+      bid: bidPrice,
+      ask: askPrice,
+      bidSize: parseFloat(data.B),
+      askSize: parseFloat(data.A),
     };
   }
 
+  private getStreams(ticker: string, marketType: MarketType): string[] {
+    const symbol = this.getSymbol(ticker).toLowerCase();
+    const streams = [`${symbol}@ticker`, `${symbol}@bookTicker`, `${symbol}@depth${this.depthLevels}@100ms`];
+    return marketType === 'futures' ? [...streams, `${symbol}@markPrice@1s`] : streams;
+  }
+
   subscribe(ticker: string, marketType: MarketType): void {
-    console.log(`[Binance] Subscribed to ${marketType.toUpperCase()} ticker for ${ticker}`);
+    this.sendMessage(
+      JSON.stringify({
+        method: 'SUBSCRIBE',
+        params: this.getStreams(ticker, marketType),
+        id: ++this.requestId,
+      }),
+      marketType,
+    );
+
+    console.log(
+      `[Binance] Subscribed to ${marketType.toUpperCase()} ticker, book ticker and depth for ${ticker}`,
+    );
+  }
+
+  unsubscribe(ticker: string, marketType: MarketType): void {
+    this.sendMessage(
+      JSON.stringify({
+        method: 'UNSUBSCRIBE',
+        params: this.getStreams(ticker, marketType),
+        id: ++this.requestId,
+      }),
+      marketType,
+    );
+
+    console.log(`[Binance] Unsubscribed from ${marketType.toUpperCase()} streams for ${ticker}`);
   }
 }
@@ -1,5 +1,5 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { MarketType, PriceData } from '../types';
+import { MarketType, OrderBookUpdate, PriceData } from '../types';
 import { BaseExchange } from './base-exchange';
 
 export class BingXExchange extends BaseExchange {
@@ -20,18 +20,22 @@ export class BingXExchange extends BaseExchange {
         `https://open-api.bingx.com/openApi/spot/v1/common/symbols?symbol=${symbol}`,
       );
       const spotData = await spotResponse.json();
-      const spotListed = spotData.data.symbols[0].status === 1;
+      const spotListed =
+        spotData.data?.symbols?.some((s: any) => s.symbol === symbol && s.status === 1) || false;
 
       const futuresResponse = await fetch(
         `https://open-api.bingx.com/openApi/swap/v2/quote/contracts?symbol=${symbol}`,
       );
       const futuresData = await futuresResponse.json();
-      const futuresListed = futuresData.data[0].status === 1;
+      const futuresListed =
+        (Array.isArray(futuresData.data) &&
+          futuresData.data.some((c: any) => c.symbol === symbol && c.status === 1)) ||
+        false;
 
       return {
         spot: spotListed,
         futures: futuresListed,
-        symbol: `${symbol}USDT`,
+        symbol: symbol,
       };
     } catch (error) {
       console.error('BingX token listing check failed:', error);
@@ -39,123 +43,147 @@ export class BingXExchange extends BaseExchange {
     }
   }
 
-  async connectSpot(ticker: string): Promise<void> {
-    const wsUrl = `wss://ws.bitget.com/v2/ws/public`;
-    this.setupWebSocket(wsUrl, ticker, 'spot');
+  async connectSpot(): Promise<void> {
+    const wsUrl = `wss://open-api-ws.bingx.com/market`;
+    this.setupWebSocket(wsUrl, 'spot');
   }
 
-  async connectFutures(ticker: string): Promise<void> {
-    const wsUrl = `wss://ws.bitget.com/v2/ws/public`;
-    this.setupWebSocket(wsUrl, ticker, 'futures');
+  async connectFutures(): Promise<void> {
+    const wsUrl = `wss://open-api-swap.bingx.com/swap-market`;
+    this.setupWebSocket(wsUrl, 'futures');
   }
 
-  parseMessage(data: any, marketType: MarketType): PriceData | null {
-    try {
-      if (marketType === 'spot') {
-        return this.parseSpotMessage(data);
-      } else {
-        return this.parseFuturesMessage(data);
-      }
-    } catch (error) {
-      console.warn(`BingX ${marketType} parse error:`, error);
-      return null;
-    }
+  //spot and swap share the symbol format
+  getSymbol(ticker: string): string {
+    return `${ticker.toUpperCase()}-USDT`;
   }
 
-  private parseSpotMessage(data: any): PriceData | null {
-    const symbol = `${this.ticker.toUpperCase()}USDT`;
-    try {
-      if (typeof data === 'string') data = JSON.parse(data);
-      // console.log(`SPOT response`, data);
-      if (data.event && data.event !== 'update') {
-        // subscription ack, ignore
-        return null;
-      }
-
-      if (!Array.isArray(data.data) || data.data.length === 0) return null;
-      const ticker = data.data[0];
+  //every BingX frame is gzip-compressed, including heartbeats
+  protected async decodeBinaryMessage(data: ArrayBuffer | Uint8Array): Promise<unknown> {
+    const stream = new Blob([data as BlobPart])
+      .stream()
+      .pipeThrough(new DecompressionStream('gzip'));
+    return new Response(stream).text();
+  }
 
-      //console.log(`[GATE] SPOT RESPONSE: ${JSON.stringify(data, null, 2)}`);
-      // console.log(`[BitGet] SPOT price: ${ticker.lastPr}`);
+  protected handlePing(raw: any, marketType: MarketType): boolean {
+    //swap heartbeat
+    if (raw === 'Ping') {
+      this.sendMessage('Pong', marketType);
+      return true;
+    }
 
-      return {
-        exchange: 'bingx',
-        symbol: symbol,
-        price: parseFloat(ticker.lastPr),
-        timestamp: Date.now(),
-        type: 'spot',
-        volume: parseFloat(ticker.quoteVolume || '0'),
-      };
-    } catch (error) {
-      console.warn('[BingX] Spot JSON parsing failed:', error);
-      return null;
+    //spot heartbeat: { ping: id, time } → { pong: id, time }
+    if (raw && typeof raw === 'object' && 'ping' in raw) {
+      this.sendMessage(JSON.stringify({ pong: raw.ping, time: raw.time }), marketType);
+      return true;
     }
+
+    return super.handlePing(raw, marketType);
   }
-  private parseFuturesMessage(data: any): PriceData | null {
-    const symbol = `${this.ticker.toUpperCase()}USDT`;
-    // console.log(`[BitGet] FUTURES RESPONSE: ${JSON.stringify(data, null, 2)}`);
 
+  //depth streams push a full snapshot: data = { bids: [[p, q]], asks }
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  protected parseDepth(data: any, marketType: MarketType): OrderBookUpdate | null {
+    if (!data || typeof data.dataType !== 'string' || !data.data) return null;
+    if (!data.dataType.includes('@depth')) return null;
+
+    const book = data.data;
+    return {
+      type: 'snapshot',
+      //depth payloads carry no symbol, the dataType ("BTC-USDT@depth20") does
+      symbol: data.dataType.split('@')[0],
+      bids: (book.bids || []).map((l: string[]) => [parseFloat(l[0]), parseFloat(l[1])]),
+      asks: (book.asks || []).map((l: string[]) => [parseFloat(l[0]), parseFloat(l[1])]),
+      timestamp: data.ts || Date.now(),
+    };
+  }
+
+  parseMessage(data: any, marketType: MarketType): PriceData | null {
     try {
       if (typeof data === 'string') data = JSON.parse(data);
 
-      if (data.event && data.event !== 'update') {
-        // subscription ack, ignore
+      if (data.code && data.code !== 0) {
+        console.warn(`[BingX] ${marketType} error: ${data.code} ${data.msg}`);
         return null;
       }
 
-      if (!Array.isArray(data.data) || data.data.length === 0) return null;
-      const ticker = data.data[0];
-      console.log(`[BingX] Futures price: ${ticker.lastPr}`);
+      // subscription ack carries no data
+      if (typeof data.dataType !== 'string' || !data.data) return null;
+
+      if (data.dataType.endsWith('@bookTicker')) {
+        return this.parseBookTicker(data.data, marketType);
+      }
+
+      if (!data.dataType.endsWith('@ticker')) return null;
+
+      const ticker = data.data;
+      // console.log(`[BingX] ${marketType} price: ${ticker.c}`);
 
       return {
-        exchange: 'bingx-futures',
-        symbol,
-        price: parseFloat(ticker.lastPr),
-        timestamp: Date.now(),
-        type: 'futures',
-        volume: parseFloat(ticker.quoteVolume || '0'),
+        exchange: marketType === 'spot' ? 'bingx' : 'bingx-futures',
+        symbol: ticker.s,
+        price: parseFloat(ticker.c),
+        timestamp: ticker.E || Date.now(),
+        type: marketType,
+        volume: parseFloat(ticker.q || '0'),
       };
     } catch (error) {
-      console.warn('[BingX] Futures JSON parsing failed:', error, data);
+      console.warn(`BingX ${marketType} parse error:`, error);
       return null;
     }
   }
 
-  subscribe(ticker: string, marketType: MarketType): void {
-    const symbol = `${ticker.toUpperCase()}USDT`;
+  //bookTicker data: { s, b: bid price, B: bid qty, a: ask price, A: ask qty }
+  private parseBookTicker(book: any, marketType: MarketType): PriceData | null {
+    if (!book.b || !book.a) return null;
+
+    const bid = parseFloat(book.b);
+    const ask = parseFloat(book.a);
+
+    return {
+      exchange: marketType === 'spot' ? 'bingx' : 'bingx-futures',
+      symbol: book.s,
+      price: (bid + ask) / 2,
+      timestamp: book.E || Date.now(),
+      type: marketType,
+      bid,
+      ask,
+      bidSize: parseFloat(book.B || '0'),
+      askSize: parseFloat(book.A || '0'),
+    };
+  }
 
-    if (marketType === 'spot') {
-      this.sendMessage(
-        JSON.stringify({
-          op: 'subscribe',
-          args: [
-            {
-              instType: 'SPOT',
-              channel: 'ticker',
-              instId: symbol,
-            },
-          ],
-        }),
-        'spot',
-      );
+  private getDataTypes(ticker: string, marketType: MarketType): string[] {
+    const symbol = this.getSymbol(ticker);
+    const depth =
+      marketType === 'spot' ? `depth${this.depthLevels}` : `depth${this.depthLevels}@500ms`;
 
-      console.log(`[BingX] Subscribed to spot ticker for ${symbol}`);
-    } else {
+    return ['ticker', 'bookTicker', depth].map((stream) => `${symbol}@${stream}`);
+  }
+
+  private sendDataTypes(ticker: string, marketType: MarketType, reqType: 'sub' | 'unsub'): void {
+    for (const dataType of this.getDataTypes(ticker, marketType)) {
       this.sendMessage(
         JSON.stringify({
-          op: 'subscribe',
-          args: [
-            {
-              instType: 'USDT-FUTURES',
-              channel: 'ticker',
-              instId: symbol,
-            },
-          ],
+          id: `${dataType}-${marketType}-${reqType}`,
+          reqType,
+          dataType,
         }),
-        'futures',
+        marketType,
       );
-
-      console.log(`[BingX] Subscribed to futures ticker for ${symbol}`);
     }
   }
+
+  subscribe(ticker: string, marketType: MarketType): void {
+    this.sendDataTypes(ticker, marketType, 'sub');
+    console.log(
+      `[BingX] Subscribed to ${marketType} ticker, book ticker and depth for ${this.getSymbol(ticker)}`,
+    );
+  }
+
+  unsubscribe(ticker: string, marketType: MarketType): void {
+    this.sendDataTypes(ticker, marketType, 'unsub');
+    console.log(`[BingX] Unsubscribed from ${marketType} streams for ${this.getSymbol(ticker)}`);
+  }
 }
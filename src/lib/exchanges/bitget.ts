@@ -1,11 +1,13 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { MarketType, PriceData } from '../types';
+import { AssetNetwork, FundingUpdate, MarketType, OrderBookUpdate, PriceData } from '../types';
 import { BaseExchange } from './base-exchange';
+import { normalizeNetwork } from './networks';
 
 export class BitGetExchange extends BaseExchange {
   constructor() {
     super('bitget', ['spot', 'futures']);
     this.requiresSubscription = { spot: true, futures: true };
+    this.fundingPollIntervalMs = 60000;
   }
 
   async checkTokenListing(ticker: string): Promise<{
@@ -42,14 +44,72 @@ export class BitGetExchange extends BaseExchange {
     }
   }
 
-  async connectSpot(ticker: string): Promise<void> {
+  //public coin info: contract and deposit/withdraw switches per chain
+  async getAssetNetworks(ticker: string): Promise<AssetNetwork[] | null> {
+    const response = await fetch(
+      `https://api.bitget.com/api/v2/spot/public/coins?coin=${ticker.toUpperCase()}`,
+    );
+    if (!response.ok) return null;
+
+    const data = await response.json();
+    const coin = data.data?.[0];
+    if (!coin) return null;
+
+    return (coin.chains || []).map((chain: any) => ({
+      network: normalizeNetwork(chain.chain),
+      contract: chain.contractAddress || undefined,
+      depositEnabled: chain.rechargeable === 'true',
+      withdrawEnabled: chain.withdrawable === 'true',
+      depositConfirmations: this.parseOptional(chain.depositConfirm),
+    }));
+  }
+
+  async connectSpot(): Promise<void> {
     const wsUrl = `wss://ws.bitget.com/v2/ws/public`;
-    this.setupWebSocket(wsUrl, ticker, 'spot');
+    this.setupWebSocket(wsUrl, 'spot');
   }
 
-  async connectFutures(ticker: string): Promise<void> {
+  async connectFutures(): Promise<void> {
     const wsUrl = `wss://ws.bitget.com/v2/ws/public`;
-    this.setupWebSocket(wsUrl, ticker, 'futures');
+    this.setupWebSocket(wsUrl, 'futures');
+  }
+
+  //the ticker channel has rate and next funding time, the interval (1h/4h/8h) is REST only
+  protected async fetchFunding(ticker: string): Promise<FundingUpdate | null> {
+    const response = await fetch(
+      `https://api.bitget.com/api/v2/mix/market/current-fund-rate?productType=usdt-futures&symbol=${this.getSymbol(ticker)}`,
+    );
+    if (!response.ok) return null;
+
+    const funding = (await response.json()).data?.[0];
+    if (!funding) return null;
+
+    return {
+      fundingRate: this.parseOptional(funding.fundingRate),
+      nextFundingTime: this.parseOptional(funding.nextUpdate),
+      fundingIntervalHours: this.parseOptional(funding.fundingRateInterval),
+    };
+  }
+
+  //spot and USDT-M futures share the instId format
+  getSymbol(ticker: string): string {
+    return `${ticker.toUpperCase()}USDT`;
+  }
+
+  //books15 pushes a full top-15 snapshot: data[0] = { asks: [[p, s]], bids, ts }
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  protected parseDepth(data: any, marketType: MarketType): OrderBookUpdate | null {
+    if (!data || data.arg?.channel !== 'books15') return null;
+    if (!Array.isArray(data.data) || data.data.length === 0) return null;
+
+    const book = data.data[0];
+    return {
+      type: 'snapshot',
+      symbol: data.arg.instId,
+      bids: (book.bids || []).map(([p, s]: string[]) => [parseFloat(p), parseFloat(s)]),
+      asks: (book.asks || []).map(([p, s]: string[]) => [parseFloat(p), parseFloat(s)]),
+      timestamp: parseInt(book.ts, 10) || Date.now(),
+    };
   }
 
   parseMessage(data: any, marketType: MarketType): PriceData | null {
@@ -66,7 +126,6 @@ export class BitGetExchange extends BaseExchange {
   }
 
   private parseSpotMessage(data: any): PriceData | null {
-    const symbol = `${this.ticker.toUpperCase()}USDT`;
     try {
       if (typeof data === 'string') data = JSON.parse(data);
       // console.log(`SPOT response`, data);
@@ -83,11 +142,12 @@ export class BitGetExchange extends BaseExchange {
 
       return {
         exchange: 'bitget',
-        symbol: symbol,
+        symbol: ticker.instId || data.arg?.instId,
         price: parseFloat(ticker.lastPr),
         timestamp: Date.now(),
         type: 'spot',
         volume: parseFloat(ticker.quoteVolume || '0'),
+        ...this.parseTickerBook(ticker),
       };
     } catch (error) {
       console.warn('[BitGet] Spot JSON parsing failed:', error);
@@ -95,7 +155,6 @@ export class BitGetExchange extends BaseExchange {
     }
   }
   private parseFuturesMessage(data: any): PriceData | null {
-    const symbol = `${this.ticker.toUpperCase()}USDT`;
     // console.log(`[BitGet] FUTURES RESPONSE: ${JSON.stringify(data, null, 2)}`);
 
     try {
@@ -112,11 +171,16 @@ export class BitGetExchange extends BaseExchange {
 
       return {
         exchange: 'bitget-futures',
-        symbol,
+        symbol: ticker.instId || data.arg?.instId,
         price: parseFloat(ticker.lastPr),
         timestamp: Date.now(),
         type: 'futures',
         volume: parseFloat(ticker.quoteVolume || '0'),
+        ...this.parseTickerBook(ticker),
+        fundingRate: this.parseOptional(ticker.fundingRate),
+        nextFundingTime: this.parseOptional(ticker.nextFundingTime),
+        markPrice: this.parseOptional(ticker.markPrice),
+        indexPrice: this.parseOptional(ticker.indexPrice),
       };
     } catch (error) {
       console.warn('[BitGet] Futures JSON parsing failed:', error, data);
@@ -124,41 +188,48 @@ export class BitGetExchange extends BaseExchange {
     }
   }
 
+  //ticker channel carries the top of book for both markets
+  private parseTickerBook(ticker: any): Partial<PriceData> {
+    if (!ticker.bidPr || !ticker.askPr) return {};
+    return {
+      bid: parseFloat(ticker.bidPr),
+      ask: parseFloat(ticker.askPr),
+      bidSize: parseFloat(ticker.bidSz || '0'),
+      askSize: parseFloat(ticker.askSz || '0'),
+    };
+  }
+
+  private getArgs(ticker: string, marketType: MarketType) {
+    const instType = marketType === 'spot' ? 'SPOT' : 'USDT-FUTURES';
+    const instId = this.getSymbol(ticker);
+
+    return [
+      { instType, channel: 'ticker', instId },
+      { instType, channel: 'books15', instId },
+    ];
+  }
+
   subscribe(ticker: string, marketType: MarketType): void {
-    const symbol = `${ticker.toUpperCase()}USDT`;
-
-    if (marketType === 'spot') {
-      this.sendMessage(
-        JSON.stringify({
-          op: 'subscribe',
-          args: [
-            {
-              instType: 'SPOT',
-              channel: 'ticker',
-              instId: symbol,
-            },
-          ],
-        }),
-        'spot',
-      );
+    this.sendMessage(
+      JSON.stringify({
+        op: 'subscribe',
+        args: this.getArgs(ticker, marketType),
+      }),
+      marketType,
+    );
+
+    console.log(`[BitGet] Subscribed to ${marketType} ticker and depth for ${this.getSymbol(ticker)}`);
+  }
 
-      console.log(`[BitGet] Subscribed to spot ticker for ${symbol}`);
-    } else {
-      this.sendMessage(
-        JSON.stringify({
-          op: 'subscribe',
-          args: [
-            {
-              instType: 'USDT-FUTURES',
-              channel: 'ticker',
-              instId: symbol,
-            },
-          ],
-        }),
-        'futures',
-      );
+  unsubscribe(ticker: string, marketType: MarketType): void {
+    this.sendMessage(
+      JSON.stringify({
+        op: 'unsubscribe',
+        args: this.getArgs(ticker, marketType),
+      }),
+      marketType,
+    );
 
-      console.log(`[BitGet] Subscribed to futures ticker for ${symbol}`);
-    }
+    console.log(`[BitGet] Unsubscribed from ${marketType} ticker and depth for ${this.getSymbol(ticker)}`);
   }
 }
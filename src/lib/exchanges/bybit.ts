@@ -0,0 +1,210 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { MarketType, OrderBookUpdate, PriceData } from '../types';
+import { BaseExchange } from './base-exchange';
+
+export class BybitExchange extends BaseExchange {
+  //linear tickers push a snapshot followed by partial deltas
+  private tickerSnapshots = new Map<string, any>();
+
+  constructor() {
+    super('bybit', ['spot', 'futures']);
+    this.requiresSubscription = { spot: true, futures: true };
+    //orderbook depth is only offered at 1, 50, 200 and 500 levels
+    this.depthLevels = 50;
+    //Bybit drops the connection without a ping every 20s
+    this.heartbeatMessage = JSON.stringify({ op: 'ping' });
+  }
+
+  async checkTokenListing(ticker: string): Promise<{
+    spot: boolean;
+    futures: boolean;
+    symbol?: string;
+  }> {
+    try {
+      const symbol = `${ticker.toUpperCase()}USDT`;
+
+      const spotResponse = await fetch(
+        `https://api.bybit.com/v5/market/instruments-info?category=spot&symbol=${symbol}`,
+      );
+      const spotData = await spotResponse.json();
+      const spotListed =
+        spotData.result?.list?.some((s: any) => s.symbol === symbol && s.status === 'Trading') ||
+        false;
+
+      const futuresResponse = await fetch(
+        `https://api.bybit.com/v5/market/instruments-info?category=linear&symbol=${symbol}`,
+      );
+      const futuresData = await futuresResponse.json();
+      const futuresListed =
+        futuresData.result?.list?.some(
+          (s: any) => s.symbol === symbol && s.status === 'Trading',
+        ) || false;
+
+      return {
+        spot: spotListed,
+        futures: futuresListed,
+        symbol: symbol,
+      };
+    } catch (error) {
+      console.error('Bybit token listing check failed:', error);
+      return { spot: false, futures: false };
+    }
+  }
+
+  async connectSpot(): Promise<void> {
+    const wsUrl = `wss://stream.bybit.com/v5/public/spot`;
+    this.setupWebSocket(wsUrl, 'spot');
+  }
+
+  async connectFutures(): Promise<void> {
+    const wsUrl = `wss://stream.bybit.com/v5/public/linear`;
+    this.setupWebSocket(wsUrl, 'futures');
+  }
+
+  //spot and linear share the symbol format
+  getSymbol(ticker: string): string {
+    return `${ticker.toUpperCase()}USDT`;
+  }
+
+  protected handlePing(raw: any, marketType: MarketType): boolean {
+    //replies to our own op ping come back as { op: 'ping', ret_msg: 'pong' } or { op: 'pong' }
+    if (raw && typeof raw === 'object' && (raw.op === 'ping' || raw.op === 'pong')) {
+      return true;
+    }
+    return super.handlePing(raw, marketType);
+  }
+
+  //orderbook.50 sends a snapshot then deltas where size "0" removes the level
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  protected parseDepth(data: any, marketType: MarketType): OrderBookUpdate | null {
+    if (!data || typeof data.topic !== 'string' || !data.data) return null;
+    if (!data.topic.startsWith(`orderbook.${this.depthLevels}.`)) return null;
+
+    const book = data.data;
+    return {
+      type: data.type === 'delta' ? 'delta' : 'snapshot',
+      symbol: book.s,
+      bids: (book.b || []).map((l: string[]) => [parseFloat(l[0]), parseFloat(l[1])]),
+      asks: (book.a || []).map((l: string[]) => [parseFloat(l[0]), parseFloat(l[1])]),
+      timestamp: data.ts || Date.now(),
+    };
+  }
+
+  parseMessage(data: any, marketType: MarketType): PriceData | null {
+    try {
+      if (typeof data === 'string') data = JSON.parse(data);
+
+      if (data.op) {
+        if (data.success === false) {
+          console.warn(`[Bybit] ${marketType} ${data.op} failed: ${data.ret_msg}`);
+        }
+        // subscription ack, ignore
+        return null;
+      }
+
+      if (typeof data.topic !== 'string' || !data.data) return null;
+
+      if (data.topic.startsWith('orderbook.1.')) {
+        return this.parseBookTicker(data, marketType);
+      }
+
+      if (!data.topic.startsWith('tickers.')) return null;
+
+      const key = `${marketType}:${data.data.symbol}`;
+      const ticker =
+        data.type === 'delta'
+          ? { ...this.tickerSnapshots.get(key), ...data.data }
+          : data.data;
+      this.tickerSnapshots.set(key, ticker);
+
+      if (!ticker.lastPrice) return null;
+      // console.log(`[Bybit] ${marketType} price: ${ticker.lastPrice}`);
+
+      return {
+        exchange: marketType === 'spot' ? 'bybit' : 'bybit-futures',
+        symbol: ticker.symbol,
+        price: parseFloat(ticker.lastPrice),
+        timestamp: data.ts || Date.now(),
+        type: marketType,
+        volume: parseFloat(ticker.turnover24h || '0'),
+        //only linear tickers carry the top of book, spot gets it from orderbook.1
+        ...(ticker.bid1Price && ticker.ask1Price
+          ? {
+              bid: parseFloat(ticker.bid1Price),
+              ask: parseFloat(ticker.ask1Price),
+              bidSize: parseFloat(ticker.bid1Size || '0'),
+              askSize: parseFloat(ticker.ask1Size || '0'),
+            }
+          : {}),
+        //linear only; deltas omit unchanged fields, the merged snapshot keeps them
+        fundingRate: this.parseOptional(ticker.fundingRate),
+        nextFundingTime: this.parseOptional(ticker.nextFundingTime),
+        fundingIntervalHours: this.parseOptional(ticker.fundingIntervalHour),
+        markPrice: this.parseOptional(ticker.markPrice),
+        indexPrice: this.parseOptional(ticker.indexPrice),
+      };
+    } catch (error) {
+      console.warn(`Bybit ${marketType} parse error:`, error);
+      return null;
+    }
+  }
+
+  //level 1 book is always pushed as a full snapshot: { s, b: [[price, size]], a: [[price, size]] }
+  private parseBookTicker(data: any, marketType: MarketType): PriceData | null {
+    const book = data.data;
+    if (!book.b?.length || !book.a?.length) return null;
+
+    const bid = parseFloat(book.b[0][0]);
+    const ask = parseFloat(book.a[0][0]);
+
+    return {
+      exchange: marketType === 'spot' ? 'bybit' : 'bybit-futures',
+      symbol: book.s,
+      price: (bid + ask) / 2,
+      timestamp: data.ts || Date.now(),
+      type: marketType,
+      bid,
+      ask,
+      bidSize: parseFloat(book.b[0][1]),
+      askSize: parseFloat(book.a[0][1]),
+    };
+  }
+
+  private getTopics(ticker: string, marketType: MarketType): string[] {
+    const symbol = this.getSymbol(ticker);
+    const depth = `orderbook.${this.depthLevels}.${symbol}`;
+
+    return marketType === 'spot'
+      ? [`tickers.${symbol}`, `orderbook.1.${symbol}`, depth]
+      : [`tickers.${symbol}`, depth];
+  }
+
+  subscribe(ticker: string, marketType: MarketType): void {
+    const args = this.getTopics(ticker, marketType);
+
+    this.sendMessage(
+      JSON.stringify({
+        op: 'subscribe',
+        args,
+      }),
+      marketType,
+    );
+
+    console.log(`[Bybit] Subscribed to ${args.join(', ')} (${marketType})`);
+  }
+
+  unsubscribe(ticker: string, marketType: MarketType): void {
+    const args = this.getTopics(ticker, marketType);
+
+    this.sendMessage(
+      JSON.stringify({
+        op: 'unsubscribe',
+        args,
+      }),
+      marketType,
+    );
+    this.tickerSnapshots.delete(`${marketType}:${this.getSymbol(ticker)}`);
+
+    console.log(`[Bybit] Unsubscribed from ${args.join(', ')} (${marketType})`);
+  }
+}
@@ -1,11 +1,14 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { MarketType, PriceData } from '../types';
+import { AssetNetwork, FundingUpdate, MarketType, OrderBookUpdate, PriceData } from '../types';
 import { BaseExchange } from './base-exchange';
+import { normalizeNetwork } from './networks';
 
 export class GateExchange extends BaseExchange {
   constructor() {
     super('gate', ['spot', 'futures']);
     this.requiresSubscription = { spot: true, futures: true };
+    this.fundingPollIntervalMs = 60000;
+    this.futuresSizedInContracts = true;
   }
 
   async checkTokenListing(ticker: string): Promise<{
@@ -38,14 +41,86 @@ export class GateExchange extends BaseExchange {
     }
   }
 
-  async connectSpot(ticker: string): Promise<void> {
+  //currency chain list: contract and deposit/withdraw switches per network
+  async getAssetNetworks(ticker: string): Promise<AssetNetwork[] | null> {
+    const response = await fetch(
+      `https://api.gateio.ws/api/v4/spot/currencies/${ticker.toUpperCase()}`,
+    );
+    if (!response.ok) return null;
+
+    const currency = await response.json();
+    return (currency.chains || []).map((chain: any) => ({
+      network: normalizeNetwork(chain.name),
+      contract: chain.addr || undefined,
+      depositEnabled: !chain.deposit_disabled,
+      withdrawEnabled: !chain.withdraw_disabled && !chain.withdraw_delayed,
+    }));
+  }
+
+  async connectSpot(): Promise<void> {
     const wsUrl = `wss://api.gateio.ws/ws/v4/`;
-    this.setupWebSocket(wsUrl, ticker, 'spot');
+    this.setupWebSocket(wsUrl, 'spot');
   }
 
-  async connectFutures(ticker: string): Promise<void> {
+  async connectFutures(): Promise<void> {
     const wsUrl = `wss://fx-ws.gateio.ws/v4/ws/usdt`;
-    this.setupWebSocket(wsUrl, ticker, 'futures');
+    this.setupWebSocket(wsUrl, 'futures');
+  }
+
+  //futures.tickers has the rates but not the schedule, the contract endpoint has both
+  protected async fetchFunding(ticker: string): Promise<FundingUpdate | null> {
+    const response = await fetch(
+      `https://api.gateio.ws/api/v4/futures/usdt/contracts/${this.getSymbol(ticker)}`,
+    );
+    if (!response.ok) return null;
+
+    const contract = await response.json();
+    const nextApply = this.parseOptional(contract.funding_next_apply); // seconds
+    const interval = this.parseOptional(contract.funding_interval); // seconds
+
+    return {
+      fundingRate: this.parseOptional(contract.funding_rate),
+      predictedFundingRate: this.parseOptional(contract.funding_rate_indicative),
+      nextFundingTime: nextApply ? nextApply * 1000 : undefined,
+      fundingIntervalHours: interval ? interval / 3600 : undefined,
+      markPrice: this.parseOptional(contract.mark_price),
+      indexPrice: this.parseOptional(contract.index_price),
+    };
+  }
+
+  //futures.order_book sizes are contracts of quanto_multiplier base units
+  protected async fetchContractSize(ticker: string): Promise<number | null> {
+    const response = await fetch(
+      `https://api.gateio.ws/api/v4/futures/usdt/contracts/${this.getSymbol(ticker)}`,
+    );
+    if (!response.ok) return null;
+
+    const contract = await response.json();
+    return this.parseOptional(contract.quanto_multiplier) ?? null;
+  }
+
+  //same pair naming on both markets
+  getSymbol(ticker: string): string {
+    return `${ticker.toUpperCase()}_USDT`;
+  }
+
+  //spot.order_book: { bids: [[p, a]], asks } / futures.order_book: { bids: [{ p, s }], asks }, s in contracts
+  protected parseDepth(data: any, marketType: MarketType): OrderBookUpdate | null {
+    const channel = marketType === 'spot' ? 'spot.order_book' : 'futures.order_book';
+    if (!data || data.channel !== channel || !data.result) return null;
+    //subscribe/unsubscribe acks reuse the channel with a status-only result
+    if (!Array.isArray(data.result.bids) || !Array.isArray(data.result.asks)) return null;
+
+    const toLevel = (l: any): [number, number] =>
+      Array.isArray(l) ? [parseFloat(l[0]), parseFloat(l[1])] : [parseFloat(l.p), Number(l.s)];
+
+    return {
+      type: 'snapshot',
+      symbol: data.result.s || data.result.contract,
+      bids: data.result.bids.map(toLevel),
+      asks: data.result.asks.map(toLevel),
+      timestamp: data.result.t || Date.now(),
+    };
   }
 
   parseMessage(data: any, marketType: MarketType): PriceData | null {
@@ -62,7 +137,6 @@ export class GateExchange extends BaseExchange {
   }
 
   private parseSpotMessage(data: any): PriceData | null {
-    const symbol = `${this.ticker.toUpperCase()}USDT`;
     try {
       if (typeof data === 'string') data = JSON.parse(data);
 
@@ -71,6 +145,10 @@ export class GateExchange extends BaseExchange {
         return null;
       }
 
+      if (data.channel === 'spot.book_ticker') {
+        return this.parseBookTicker(data.result, 'spot');
+      }
+
       if (!data.result || !data.result.last) return null;
 
       //console.log(`[GATE] SPOT RESPONSE: ${JSON.stringify(data, null, 2)}`);
@@ -78,7 +156,7 @@ export class GateExchange extends BaseExchange {
 
       return {
         exchange: 'gate',
-        symbol: symbol,
+        symbol: data.result.currency_pair,
         price: parseFloat(data.result.last),
         timestamp: Date.now(),
         type: 'spot',
@@ -90,13 +168,17 @@ export class GateExchange extends BaseExchange {
     }
   }
   private parseFuturesMessage(data: any): PriceData | null {
-    const symbol = `${this.ticker.toUpperCase()}USDT`;
     // console.log(`[GATE] FUTURES RESPONSE: ${JSON.stringify(data, null, 2)}`);
 
     try {
       if (typeof data === 'string') data = JSON.parse(data);
 
       if (!data || data.event !== 'update') return null;
+
+      if (data.channel === 'futures.book_ticker') {
+        return this.parseBookTicker(data.result, 'futures');
+      }
+
       if (!Array.isArray(data.result) || data.result.length === 0) return null;
 
       const ticker = data.result[0];
@@ -104,11 +186,16 @@ export class GateExchange extends BaseExchange {
 
       return {
         exchange: 'gate-futures',
-        symbol,
+        symbol: ticker.contract,
         price: parseFloat(ticker.last),
         timestamp: Date.now(),
         type: 'futures',
         volume: parseFloat(ticker.volume_24h_quote || '0'),
+        //funding_rate settles next, funding_rate_indicative is the estimate after it
+        fundingRate: this.parseOptional(ticker.funding_rate),
+        predictedFundingRate: this.parseOptional(ticker.funding_rate_indicative),
+        markPrice: this.parseOptional(ticker.mark_price),
+        indexPrice: this.parseOptional(ticker.index_price),
       };
     } catch (error) {
       console.warn('[GATE] Futures JSON parsing failed:', error, data);
@@ -116,33 +203,66 @@ export class GateExchange extends BaseExchange {
     }
   }
 
-  subscribe(ticker: string, marketType: MarketType): void {
-    const symbol = `${ticker.toUpperCase()}_USDT`;
+  //book_ticker result: { t, u, s, b, B, a, A }, sizes are contracts on futures
+  private parseBookTicker(result: any, marketType: MarketType): PriceData | null {
+    if (!result?.b || !result?.a) return null;
+
+    const bid = parseFloat(result.b);
+    const ask = parseFloat(result.a);
+
+    return {
+      exchange: marketType === 'spot' ? 'gate' : 'gate-futures',
+      symbol: result.s,
+      price: (bid + ask) / 2,
+      timestamp: result.t || Date.now(),
+      type: marketType,
+      bid,
+      ask,
+      bidSize: parseFloat(result.B || '0'),
+      askSize: parseFloat(result.A || '0'),
+    };
+  }
+
+  private getChannels(ticker: string, marketType: MarketType): [string, string[]][] {
+    const symbol = this.getSymbol(ticker);
 
     if (marketType === 'spot') {
-      this.sendMessage(
-        JSON.stringify({
-          time: Date.now(),
-          channel: 'spot.tickers',
-          event: 'subscribe',
-          payload: [symbol],
-        }),
-        'spot',
-      );
+      return [
+        ['spot.tickers', [symbol]],
+        ['spot.book_ticker', [symbol]],
+        ['spot.order_book', [symbol, `${this.depthLevels}`, '100ms']],
+      ];
+    }
+    return [
+      ['futures.tickers', [symbol]],
+      ['futures.book_ticker', [symbol]],
+      ['futures.order_book', [symbol, `${this.depthLevels}`, '0']],
+    ];
+  }
 
-      console.log(`[GATE] Subscribed to spot ticker for ${symbol}`);
-    } else {
+  private sendChannels(ticker: string, marketType: MarketType, event: 'subscribe' | 'unsubscribe'): void {
+    for (const [channel, payload] of this.getChannels(ticker, marketType)) {
       this.sendMessage(
         JSON.stringify({
           time: Date.now(),
-          channel: 'futures.tickers',
-          event: 'subscribe',
-          payload: [symbol],
+          channel,
+          event,
+          payload,
         }),
-        'futures',
+        marketType,
       );
-
-      console.log(`[GATE] Subscribed to futures ticker for ${symbol}`);
     }
   }
+
+  subscribe(ticker: string, marketType: MarketType): void {
+    this.sendChannels(ticker, marketType, 'subscribe');
+    console.log(
+      `[GATE] Subscribed to ${marketType} ticker, book ticker and depth for ${this.getSymbol(ticker)}`,
+    );
+  }
+
+  unsubscribe(ticker: string, marketType: MarketType): void {
+    this.sendChannels(ticker, marketType, 'unsubscribe');
+    console.log(`[GATE] Unsubscribed from ${marketType} channels for ${this.getSymbol(ticker)}`);
+  }
 }
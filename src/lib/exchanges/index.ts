@@ -4,6 +4,10 @@ import { BinanceExchange } from './binance';
 import { MEXCExchange } from './mexc';
 import { GateExchange } from './gate';
 import { BitGetExchange } from './bitget';
+import { OKXExchange } from './okx';
+import { BybitExchange } from './bybit';
+import { OurbitExchange } from './ourbit';
+import { BingXExchange } from './bingx';
 
 export class ExchangeFactory {
   private static exchangeInstances = new Map<string, BaseExchange>();
@@ -29,6 +33,18 @@ export class ExchangeFactory {
       case 'bitget':
         exchange = new BitGetExchange();
         break;
+      case 'okx':
+        exchange = new OKXExchange();
+        break;
+      case 'bybit':
+        exchange = new BybitExchange();
+        break;
+      case 'ourbit':
+        exchange = new OurbitExchange();
+        break;
+      case 'bingx':
+        exchange = new BingXExchange();
+        break;
       default:
         console.error(`Unknown exchange: ${exchangeName}`);
         return null;
@@ -47,6 +63,10 @@ export class ExchangeFactory {
       { name: 'mexc', markets: ['spot', 'futures'] },
       { name: 'gate', markets: ['spot', 'futures'] },
       { name: 'bitget', markets: ['spot', 'futures'] },
+      { name: 'okx', markets: ['spot', 'futures'] },
+      { name: 'bybit', markets: ['spot', 'futures'] },
+      { name: 'ourbit', markets: ['spot', 'futures'] },
+      { name: 'bingx', markets: ['spot', 'futures'] },
     ];
   }
 
@@ -1,12 +1,13 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { BaseExchange } from './base-exchange';
-import { PriceData, MarketType } from '../types';
+import { PriceData, MarketType, OrderBookUpdate, FundingUpdate } from '../types';
 import { protobufManager } from '../protobuf/protobuf-manager';
 
 export class MEXCExchange extends BaseExchange {
   constructor() {
     super('mexc', ['spot', 'futures']);
     this.requiresSubscription = { spot: true, futures: true };
+    this.futuresSizedInContracts = true;
   }
 
   async checkTokenListing(ticker: string): Promise<{
@@ -43,14 +44,58 @@ export class MEXCExchange extends BaseExchange {
     }
   }
 
-  async connectSpot(ticker: string): Promise<void> {
+  async connectSpot(): Promise<void> {
     const wsUrl = `wss://wbs-api.mexc.com/ws`;
-    this.setupWebSocket(wsUrl, ticker, 'spot');
+    this.setupWebSocket(wsUrl, 'spot');
   }
 
-  async connectFutures(ticker: string): Promise<void> {
+  async connectFutures(): Promise<void> {
     const wsUrl = `wss://contract.mexc.com/edge`;
-    this.setupWebSocket(wsUrl, ticker, 'futures');
+    this.setupWebSocket(wsUrl, 'futures');
+  }
+
+  getSymbol(ticker: string, marketType: MarketType): string {
+    return marketType === 'spot' ? `${ticker.toUpperCase()}USDT` : `${ticker.toUpperCase()}_USDT`;
+  }
+
+  protected parseDepth(data: any, marketType: MarketType): OrderBookUpdate | null {
+    if (marketType === 'spot') {
+      if (!(data instanceof ArrayBuffer) && !(data instanceof Uint8Array)) return null;
+      return protobufManager.handleMEXCDepth(data);
+    }
+
+    //push.depth.full arrives unwrapped: { asks: [[price, vol, orders]], bids, version }, vol in contracts
+    if (!data || !Array.isArray(data.asks) || !Array.isArray(data.bids)) return null;
+
+    return {
+      type: 'snapshot',
+      bids: data.bids.map((l: number[]) => [Number(l[0]), Number(l[1])]),
+      asks: data.asks.map((l: number[]) => [Number(l[0]), Number(l[1])]),
+      timestamp: data.timestamp || Date.now(),
+    };
+  }
+
+  //futures depth vol is contracts of contractSize base units
+  protected async fetchContractSize(ticker: string): Promise<number | null> {
+    const response = await fetch(
+      `https://contract.mexc.com/api/v1/contract/detail?symbol=${this.getSymbol(ticker, 'futures')}`,
+    );
+    if (!response.ok) return null;
+
+    const detail = await response.json();
+    return this.parseOptional(detail.data?.contractSize) ?? null;
+  }
+
+  //push.funding.rate arrives unwrapped: { symbol, rate, nextSettleTime }
+  protected parseFunding(data: any, marketType: MarketType): FundingUpdate | null {
+    if (marketType !== 'futures' || !data || typeof data !== 'object') return null;
+    if (!('rate' in data) || !('nextSettleTime' in data)) return null;
+
+    return {
+      symbol: data.symbol,
+      fundingRate: this.parseOptional(data.rate),
+      nextFundingTime: this.parseOptional(data.nextSettleTime),
+    };
   }
 
   parseMessage(data: any, marketType: MarketType): PriceData | null {
@@ -67,18 +112,32 @@ export class MEXCExchange extends BaseExchange {
   }
 
   private parseSpotMessage(data: any): PriceData | null {
-    const symbol = `${this.ticker.toUpperCase()}USDT`;
-    const deal = protobufManager.handleMEXCMessage(data);
-    if (deal) {
-      // console.log(`[MEXC] SPOT price: ${deal.price}`);
+    const update = protobufManager.handleMEXCMessage(data);
+    if (update?.deal) {
+      // console.log(`[MEXC] SPOT price: ${update.deal.price}`);
       return {
         exchange: 'mexc',
-        symbol: symbol,
-        price: parseFloat(deal.price || '0'),
+        symbol: update.symbol ?? '',
+        price: parseFloat(update.deal.price || '0'),
         timestamp: Date.now(),
         type: 'spot',
       };
     }
+    if (update?.bookTicker) {
+      const bid = parseFloat(update.bookTicker.bidPrice);
+      const ask = parseFloat(update.bookTicker.askPrice);
+      return {
+        exchange: 'mexc',
+        symbol: update.symbol ?? '',
+        price: (bid + ask) / 2,
+        timestamp: Date.now(),
+        type: 'spot',
+        bid,
+        ask,
+        bidSize: parseFloat(update.bookTicker.bidQuantity || '0'),
+        askSize: parseFloat(update.bookTicker.askQuantity || '0'),
+      };
+    }
     return null;
   }
 
@@ -113,20 +172,26 @@ export class MEXCExchange extends BaseExchange {
             timestamp: t.timestamp || Date.now(),
             type: 'futures',
             volume: parseFloat(t.volume || '0'),
+            ...this.parseTickerBook(t),
+            ...this.parseTickerFunding(t),
           };
         }
 
         if (data.channel === 'push.depth') {
           const d = data.data;
           if (!d?.bids?.length || !d?.asks?.length) return null;
-          const mid = (parseFloat(d.bids[0][0]) + parseFloat(d.asks[0][0])) / 2;
+          const bid = parseFloat(d.bids[0][0]);
+          const ask = parseFloat(d.asks[0][0]);
           return {
             exchange: 'mexc-futures',
             symbol: d.symbol,
-            price: mid,
+            price: (bid + ask) / 2,
             timestamp: d.timestamp || Date.now(),
             type: 'futures',
-            volume: 0,
+            bid,
+            ask,
+            bidSize: parseFloat(d.bids[0][1]),
+            askSize: parseFloat(d.asks[0][1]),
           };
         }
 
@@ -142,6 +207,8 @@ export class MEXCExchange extends BaseExchange {
           timestamp: data.timestamp || Date.now(),
           type: 'futures',
           volume: parseFloat(data.volume24 || '0'),
+          ...this.parseTickerBook(data),
+          ...this.parseTickerFunding(data),
         };
       }
 
@@ -152,21 +219,42 @@ export class MEXCExchange extends BaseExchange {
     }
   }
 
+  //contract tickers carry the best bid/ask (no sizes)
+  private parseTickerBook(t: any): Partial<PriceData> {
+    if (!t.bid1 || !t.ask1) return {};
+    return { bid: parseFloat(t.bid1), ask: parseFloat(t.ask1) };
+  }
+
+  //contract tickers carry the current funding rate, fair (mark) and index price
+  private parseTickerFunding(t: any): Partial<PriceData> {
+    return {
+      fundingRate: this.parseOptional(t.fundingRate),
+      markPrice: this.parseOptional(t.fairPrice),
+      indexPrice: this.parseOptional(t.indexPrice),
+    };
+  }
+
+  private getSpotStreams(symbol: string): string[] {
+    return [
+      `spot@public.aggre.deals.v3.api.pb@100ms@${symbol}`,
+      `spot@public.aggre.bookTicker.v3.api.pb@100ms@${symbol}`,
+      `spot@public.limit.depth.v3.api.pb@${symbol}@${this.depthLevels}`,
+    ];
+  }
+
   subscribe(ticker: string, marketType: MarketType): void {
-    const symbol =
-      marketType === 'spot' ? `${ticker.toUpperCase()}USDT` : `${ticker.toUpperCase()}_USDT`;
+    const symbol = this.getSymbol(ticker, marketType);
 
     if (marketType === 'spot') {
       this.sendMessage(
         JSON.stringify({
           method: 'SUBSCRIPTION',
-          params: [`spot@public.aggre.deals.v3.api.pb@100ms@${symbol}`],
-          // params: [`spot@public.aggre.bookTicker.v3.api.pb@100ms@${symbol}`],
+          params: this.getSpotStreams(symbol),
         }),
         'spot',
       );
 
-      console.log(`[MEXC] Subscribed to protobuf deals stream for ${symbol}`);
+      console.log(`[MEXC] Subscribed to protobuf deals, book ticker and depth streams for ${symbol}`);
     } else {
       this.sendMessage(
         JSON.stringify({
@@ -175,8 +263,42 @@ export class MEXCExchange extends BaseExchange {
         }),
         'futures',
       );
+      this.sendMessage(
+        JSON.stringify({
+          method: 'sub.depth.full',
+          param: { symbol, limit: this.depthLevels },
+        }),
+        'futures',
+      );
+      this.sendMessage(
+        JSON.stringify({
+          method: 'sub.funding.rate',
+          param: { symbol },
+        }),
+        'futures',
+      );
 
-      console.log(`[MEXC] Subscribed to futures ticker for ${symbol}`);
+      console.log(`[MEXC] Subscribed to futures ticker, depth and funding rate for ${symbol}`);
     }
   }
+
+  unsubscribe(ticker: string, marketType: MarketType): void {
+    const symbol = this.getSymbol(ticker, marketType);
+
+    if (marketType === 'spot') {
+      this.sendMessage(
+        JSON.stringify({
+          method: 'UNSUBSCRIPTION',
+          params: this.getSpotStreams(symbol),
+        }),
+        'spot',
+      );
+    } else {
+      for (const method of ['unsub.ticker', 'unsub.depth.full', 'unsub.funding.rate']) {
+        this.sendMessage(JSON.stringify({ method, param: { symbol } }), 'futures');
+      }
+    }
+
+    console.log(`[MEXC] Unsubscribed from ${marketType} streams for ${symbol}`);
+  }
 }
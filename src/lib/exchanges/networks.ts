@@ -0,0 +1,28 @@
+//venue network codes for the same chain, normalized to the DEX fetcher's chain keys
+const NETWORK_ALIASES: Record<string, string> = {
+  ETH: 'eth',
+  ERC20: 'eth',
+  ETHEREUM: 'eth',
+  BSC: 'bsc',
+  BEP20: 'bsc',
+  'BEP20(BSC)': 'bsc',
+  'BNB SMART CHAIN': 'bsc',
+  MATIC: 'polygon',
+  POL: 'polygon',
+  POLYGON: 'polygon',
+  ARBEVM: 'arbitrum',
+  ARBITRUM: 'arbitrum',
+  ARBITRUMONE: 'arbitrum',
+  'ARBITRUM ONE': 'arbitrum',
+};
+
+export function normalizeNetwork(code: string): string {
+  const upper = code.trim().toUpperCase();
+  return NETWORK_ALIASES[upper] || upper.toLowerCase();
+}
+
+//EVM addresses compare case-insensitively, other chains' (base58 etc.) do not
+export function normalizeContract(contract: string): string {
+  const trimmed = contract.trim();
+  return /^0x[0-9a-fA-F]{40}$/.test(trimmed) ? trimmed.toLowerCase() : trimmed;
+}
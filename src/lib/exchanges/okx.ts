@@ -0,0 +1,187 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { FundingUpdate, MarketType, OrderBookUpdate, PriceData } from '../types';
+import { BaseExchange } from './base-exchange';
+
+export class OKXExchange extends BaseExchange {
+  constructor() {
+    super('okx', ['spot', 'futures']);
+    this.requiresSubscription = { spot: true, futures: true };
+    //OKX closes the socket after 30s without traffic, replies "pong"
+    this.heartbeatMessage = 'ping';
+    this.futuresSizedInContracts = true;
+  }
+
+  async checkTokenListing(ticker: string): Promise<{
+    spot: boolean;
+    futures: boolean;
+    symbol?: string;
+  }> {
+    try {
+      const symbol = `${ticker.toUpperCase()}-USDT`;
+      const fSymbol = `${symbol}-SWAP`;
+
+      const spotResponse = await fetch(
+        `https://www.okx.com/api/v5/public/instruments?instType=SPOT&instId=${symbol}`,
+      );
+      const spotData = await spotResponse.json();
+      const spotListed =
+        spotData.data?.some((i: any) => i.instId === symbol && i.state === 'live') || false;
+
+      const futuresResponse = await fetch(
+        `https://www.okx.com/api/v5/public/instruments?instType=SWAP&instId=${fSymbol}`,
+      );
+      const futuresData = await futuresResponse.json();
+      const futuresListed =
+        futuresData.data?.some((i: any) => i.instId === fSymbol && i.state === 'live') || false;
+
+      return {
+        spot: spotListed,
+        futures: futuresListed,
+        symbol: symbol,
+      };
+    } catch (error) {
+      console.error('OKX token listing check failed:', error);
+      return { spot: false, futures: false };
+    }
+  }
+
+  async connectSpot(): Promise<void> {
+    const wsUrl = `wss://ws.okx.com:8443/ws/v5/public`;
+    this.setupWebSocket(wsUrl, 'spot');
+  }
+
+  async connectFutures(): Promise<void> {
+    const wsUrl = `wss://ws.okx.com:8443/ws/v5/public`;
+    this.setupWebSocket(wsUrl, 'futures');
+  }
+
+  getSymbol(ticker: string, marketType: MarketType): string {
+    return marketType === 'spot' ? `${ticker.toUpperCase()}-USDT` : `${ticker.toUpperCase()}-USDT-SWAP`;
+  }
+
+  //SWAP books5 sizes are contracts of ctVal base units
+  protected async fetchContractSize(ticker: string): Promise<number | null> {
+    const instId = this.getSymbol(ticker, 'futures');
+    const response = await fetch(
+      `https://www.okx.com/api/v5/public/instruments?instType=SWAP&instId=${instId}`,
+    );
+    if (!response.ok) return null;
+
+    const instruments = await response.json();
+    const instrument = instruments.data?.find((i: any) => i.instId === instId);
+    return this.parseOptional(instrument?.ctVal) ?? null;
+  }
+
+  //books5 pushes a full top-5 snapshot: data[0] = { asks: [[px, sz, _, orders]], bids, ts }
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  protected parseDepth(data: any, marketType: MarketType): OrderBookUpdate | null {
+    if (!data || data.arg?.channel !== 'books5' || data.event) return null;
+    if (!Array.isArray(data.data) || data.data.length === 0) return null;
+
+    const book = data.data[0];
+    return {
+      type: 'snapshot',
+      symbol: data.arg.instId,
+      bids: (book.bids || []).map((l: string[]) => [parseFloat(l[0]), parseFloat(l[1])]),
+      asks: (book.asks || []).map((l: string[]) => [parseFloat(l[0]), parseFloat(l[1])]),
+      timestamp: parseInt(book.ts, 10) || Date.now(),
+    };
+  }
+
+  //funding-rate: data[0] = { instId, fundingRate, nextFundingRate, fundingTime, nextFundingTime }
+  //fundingTime is the upcoming settlement, nextFundingTime the one after it
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  protected parseFunding(data: any, marketType: MarketType): FundingUpdate | null {
+    if (!data || data.arg?.channel !== 'funding-rate' || data.event) return null;
+    if (!Array.isArray(data.data) || data.data.length === 0) return null;
+
+    const funding = data.data[0];
+    const fundingTime = this.parseOptional(funding.fundingTime);
+    const followingTime = this.parseOptional(funding.nextFundingTime);
+
+    return {
+      symbol: funding.instId,
+      fundingRate: this.parseOptional(funding.fundingRate),
+      predictedFundingRate: this.parseOptional(funding.nextFundingRate),
+      nextFundingTime: fundingTime,
+      fundingIntervalHours:
+        fundingTime && followingTime ? (followingTime - fundingTime) / (60 * 60 * 1000) : undefined,
+    };
+  }
+
+  parseMessage(data: any, marketType: MarketType): PriceData | null {
+    try {
+      if (typeof data === 'string') data = JSON.parse(data);
+
+      if (data.event) {
+        if (data.event === 'error') {
+          console.warn(`[OKX] ${marketType} error: ${data.code} ${data.msg}`);
+        }
+        // subscribe ack, ignore
+        return null;
+      }
+
+      if (data.arg?.channel !== 'tickers') return null;
+      if (!Array.isArray(data.data) || data.data.length === 0) return null;
+      const ticker = data.data[0];
+      // console.log(`[OKX] ${marketType} price: ${ticker.last}`);
+
+      return {
+        exchange: marketType === 'spot' ? 'okx' : 'okx-futures',
+        symbol: ticker.instId,
+        price: parseFloat(ticker.last),
+        timestamp: parseInt(ticker.ts, 10) || Date.now(),
+        type: marketType,
+        volume: parseFloat(ticker.volCcy24h || '0'),
+        ...(ticker.bidPx && ticker.askPx
+          ? {
+              bid: parseFloat(ticker.bidPx),
+              ask: parseFloat(ticker.askPx),
+              bidSize: parseFloat(ticker.bidSz || '0'),
+              askSize: parseFloat(ticker.askSz || '0'),
+            }
+          : {}),
+      };
+    } catch (error) {
+      console.warn(`OKX ${marketType} parse error:`, error);
+      return null;
+    }
+  }
+
+  private getArgs(ticker: string, marketType: MarketType) {
+    const instId = this.getSymbol(ticker, marketType);
+    const args = [
+      { channel: 'tickers', instId },
+      { channel: 'books5', instId },
+    ];
+    return marketType === 'futures' ? [...args, { channel: 'funding-rate', instId }] : args;
+  }
+
+  subscribe(ticker: string, marketType: MarketType): void {
+    this.sendMessage(
+      JSON.stringify({
+        op: 'subscribe',
+        args: this.getArgs(ticker, marketType),
+      }),
+      marketType,
+    );
+
+    console.log(
+      `[OKX] Subscribed to ${marketType} ticker and depth for ${this.getSymbol(ticker, marketType)}`,
+    );
+  }
+
+  unsubscribe(ticker: string, marketType: MarketType): void {
+    this.sendMessage(
+      JSON.stringify({
+        op: 'unsubscribe',
+        args: this.getArgs(ticker, marketType),
+      }),
+      marketType,
+    );
+
+    console.log(
+      `[OKX] Unsubscribed from ${marketType} ticker and depth for ${this.getSymbol(ticker, marketType)}`,
+    );
+  }
+}
@@ -0,0 +1,235 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { BaseExchange } from './base-exchange';
+import { PriceData, MarketType, OrderBookUpdate } from '../types';
+import { protobufManager } from '../protobuf/protobuf-manager';
+
+//Ourbit runs the MEXC v3 stack: same protobuf push wrapper for spot, same JSON edge for contracts
+export class OurbitExchange extends BaseExchange {
+  constructor() {
+    super('ourbit', ['spot', 'futures']);
+    this.requiresSubscription = { spot: true, futures: true };
+    this.futuresSizedInContracts = true;
+    //both sockets drop clients that stay quiet for about a minute
+    this.heartbeatMessage = {
+      spot: JSON.stringify({ method: 'PING' }),
+      futures: JSON.stringify({ method: 'ping' }),
+    };
+  }
+
+  async checkTokenListing(ticker: string): Promise<{
+    spot: boolean;
+    futures: boolean;
+    symbol?: string;
+  }> {
+    try {
+      const symbol = `${ticker.toUpperCase()}USDT`;
+      const fSymbol = `${ticker.toUpperCase()}_USDT`;
+
+      const spotResponse = await fetch(
+        `https://api.ourbit.com/api/v3/exchangeInfo?symbol=${symbol}`,
+      );
+      const spotData = await spotResponse.json();
+
+      const spotListed =
+        spotData.symbols?.some((s: any) => s.symbol === symbol && s.status === '1') || false;
+
+      const futuresResponse = await fetch(
+        `https://futures.ourbit.com/api/v1/contract/detail?symbol=${fSymbol}`,
+      );
+      const futuresData = await futuresResponse.json();
+      const futuresListed = futuresData?.data?.symbol === fSymbol && futuresData.data.state === 0;
+
+      return {
+        spot: spotListed,
+        futures: futuresListed,
+        symbol: symbol,
+      };
+    } catch (error) {
+      console.error('Ourbit token listing check failed:', error);
+      return { spot: false, futures: false };
+    }
+  }
+
+  async connectSpot(): Promise<void> {
+    const wsUrl = `wss://wbs-api.ourbit.com/ws`;
+    this.setupWebSocket(wsUrl, 'spot');
+  }
+
+  async connectFutures(): Promise<void> {
+    const wsUrl = `wss://futures.ourbit.com/edge`;
+    this.setupWebSocket(wsUrl, 'futures');
+  }
+
+  getSymbol(ticker: string, marketType: MarketType): string {
+    return marketType === 'spot' ? `${ticker.toUpperCase()}USDT` : `${ticker.toUpperCase()}_USDT`;
+  }
+
+  protected parseDepth(data: any, marketType: MarketType): OrderBookUpdate | null {
+    if (marketType === 'spot') {
+      if (!(data instanceof ArrayBuffer) && !(data instanceof Uint8Array)) return null;
+      return protobufManager.handleMEXCDepth(data);
+    }
+
+    //push.depth.full arrives unwrapped: { asks: [[price, vol, orders]], bids, version }, vol in contracts
+    if (!data || !Array.isArray(data.asks) || !Array.isArray(data.bids)) return null;
+
+    return {
+      type: 'snapshot',
+      bids: data.bids.map((l: number[]) => [Number(l[0]), Number(l[1])]),
+      asks: data.asks.map((l: number[]) => [Number(l[0]), Number(l[1])]),
+      timestamp: data.timestamp || Date.now(),
+    };
+  }
+
+  //futures depth vol is contracts of contractSize base units, as on MEXC
+  protected async fetchContractSize(ticker: string): Promise<number | null> {
+    const response = await fetch(
+      `https://futures.ourbit.com/api/v1/contract/detail?symbol=${this.getSymbol(ticker, 'futures')}`,
+    );
+    if (!response.ok) return null;
+
+    const detail = await response.json();
+    return this.parseOptional(detail.data?.contractSize) ?? null;
+  }
+
+  parseMessage(data: any, marketType: MarketType): PriceData | null {
+    try {
+      if (marketType === 'spot') {
+        return this.parseSpotMessage(data);
+      } else {
+        return this.parseFuturesMessage(data);
+      }
+    } catch (error) {
+      console.warn(`Ourbit ${marketType} parse error:`, error);
+      return null;
+    }
+  }
+
+  private parseSpotMessage(data: any): PriceData | null {
+    //JSON frames on the spot socket are subscription acks
+    if (!(data instanceof ArrayBuffer) && !(data instanceof Uint8Array)) return null;
+
+    const update = protobufManager.handleMEXCMessage(data);
+    if (update?.deal) {
+      // console.log(`[Ourbit] SPOT price: ${update.deal.price}`);
+      return {
+        exchange: 'ourbit',
+        symbol: update.symbol ?? '',
+        price: parseFloat(update.deal.price || '0'),
+        timestamp: Date.now(),
+        type: 'spot',
+      };
+    }
+    if (update?.bookTicker) {
+      const bid = parseFloat(update.bookTicker.bidPrice);
+      const ask = parseFloat(update.bookTicker.askPrice);
+      return {
+        exchange: 'ourbit',
+        symbol: update.symbol ?? '',
+        price: (bid + ask) / 2,
+        timestamp: Date.now(),
+        type: 'spot',
+        bid,
+        ask,
+        bidSize: parseFloat(update.bookTicker.bidQuantity || '0'),
+        askSize: parseFloat(update.bookTicker.askQuantity || '0'),
+      };
+    }
+    return null;
+  }
+
+  private parseFuturesMessage(data: any): PriceData | null {
+    try {
+      if (typeof data === 'string') {
+        try {
+          data = JSON.parse(data);
+        } catch {
+          console.warn('[Ourbit] Futures received non-JSON string:', data);
+          return null;
+        }
+      }
+
+      //base handler unwraps { channel, data } frames, so the ticker usually arrives bare
+      const t = data?.channel === 'push.ticker' ? data.data : data;
+      if (!t || typeof t !== 'object' || !('lastPrice' in t) || !('symbol' in t)) return null;
+      // console.log(`[Ourbit] Futures price: ${t.lastPrice}`);
+
+      return {
+        exchange: 'ourbit-futures',
+        symbol: t.symbol,
+        price: parseFloat(t.lastPrice),
+        timestamp: t.timestamp || Date.now(),
+        type: 'futures',
+        volume: parseFloat(t.volume24 || '0'),
+        ...(t.bid1 && t.ask1 ? { bid: parseFloat(t.bid1), ask: parseFloat(t.ask1) } : {}),
+        fundingRate: this.parseOptional(t.fundingRate),
+        markPrice: this.parseOptional(t.fairPrice),
+        indexPrice: this.parseOptional(t.indexPrice),
+      };
+    } catch (error) {
+      console.warn('[Ourbit] Futures JSON parsing failed:', error);
+      return null;
+    }
+  }
+
+  private getSpotStreams(symbol: string): string[] {
+    return [
+      `spot@public.aggre.deals.v3.api.pb@100ms@${symbol}`,
+      `spot@public.aggre.bookTicker.v3.api.pb@100ms@${symbol}`,
+      `spot@public.limit.depth.v3.api.pb@${symbol}@${this.depthLevels}`,
+    ];
+  }
+
+  subscribe(ticker: string, marketType: MarketType): void {
+    const symbol = this.getSymbol(ticker, marketType);
+
+    if (marketType === 'spot') {
+      this.sendMessage(
+        JSON.stringify({
+          method: 'SUBSCRIPTION',
+          params: this.getSpotStreams(symbol),
+        }),
+        'spot',
+      );
+
+      console.log(`[Ourbit] Subscribed to protobuf deals, book ticker and depth streams for ${symbol}`);
+    } else {
+      this.sendMessage(
+        JSON.stringify({
+          method: 'sub.ticker',
+          param: { symbol },
+        }),
+        'futures',
+      );
+      this.sendMessage(
+        JSON.stringify({
+          method: 'sub.depth.full',
+          param: { symbol, limit: this.depthLevels },
+        }),
+        'futures',
+      );
+
+      console.log(`[Ourbit] Subscribed to futures ticker and depth for ${symbol}`);
+    }
+  }
+
+  unsubscribe(ticker: string, marketType: MarketType): void {
+    const symbol = this.getSymbol(ticker, marketType);
+
+    if (marketType === 'spot') {
+      this.sendMessage(
+        JSON.stringify({
+          method: 'UNSUBSCRIPTION',
+          params: this.getSpotStreams(symbol),
+        }),
+        'spot',
+      );
+    } else {
+      for (const method of ['unsub.ticker', 'unsub.depth.full']) {
+        this.sendMessage(JSON.stringify({ method, param: { symbol } }), 'futures');
+      }
+    }
+
+    console.log(`[Ourbit] Unsubscribed from ${marketType} streams for ${symbol}`);
+  }
+}
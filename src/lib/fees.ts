@@ -0,0 +1,142 @@
+import { FeesBreakdown, MarketType, PriceData } from './types';
+import { singleton } from './singleton';
+
+export interface TradingFee {
+  maker: number; // percent
+  taker: number; // percent
+}
+
+//base tier (VIP0, no platform token discount) schedules
+const DEFAULT_EXCHANGE_FEES: Record<string, Partial<Record<MarketType, TradingFee>>> = {
+  binance: { spot: { maker: 0.1, taker: 0.1 }, futures: { maker: 0.02, taker: 0.05 } },
+  mexc: { spot: { maker: 0, taker: 0.05 }, futures: { maker: 0, taker: 0.02 } },
+  gate: { spot: { maker: 0.2, taker: 0.2 }, futures: { maker: 0.015, taker: 0.05 } },
+  bitget: { spot: { maker: 0.1, taker: 0.1 }, futures: { maker: 0.02, taker: 0.06 } },
+  okx: { spot: { maker: 0.08, taker: 0.1 }, futures: { maker: 0.02, taker: 0.05 } },
+  bybit: { spot: { maker: 0.1, taker: 0.1 }, futures: { maker: 0.02, taker: 0.055 } },
+  ourbit: { spot: { maker: 0, taker: 0.05 }, futures: { maker: 0, taker: 0.02 } },
+  bingx: { spot: { maker: 0.1, taker: 0.1 }, futures: { maker: 0.02, taker: 0.05 } },
+};
+
+//swap fee of the default V2 AMM on each chain, used when a DEX quote has no pool fee
+const DEFAULT_DEX_FEES: Record<string, number> = {
+  eth: 0.3, // Uniswap V2
+  bsc: 0.25, // PancakeSwap V2
+  polygon: 0.3, // QuickSwap
+  arbitrum: 0.3, // SushiSwap
+};
+
+const FALLBACK_TRADING_FEE: TradingFee = { maker: 0.1, taker: 0.1 };
+const FALLBACK_DEX_FEE = 0.3;
+
+export function getVenueName(exchangeKey: string): string {
+  return exchangeKey.replace(/-(futures|dex)$/, '');
+}
+
+//venue an asset sits on: the exchange across its markets, or the chain for DEX quotes (eth-dex)
+export function getVenueKey(price: PriceData): string {
+  return price.type === 'dex' ? price.exchange : getVenueName(price.exchange);
+}
+
+class FeeModel {
+  private exchangeFees = new Map<string, Partial<Record<MarketType, TradingFee>>>(
+    Object.entries(DEFAULT_EXCHANGE_FEES),
+  );
+  private poolFees = new Map<string, number>();
+  //ticker -> exchange -> network -> fee in token units
+  private withdrawalFees = new Map<string, Map<string, Map<string, number>>>();
+  //trade size used to turn flat withdrawal fees into a percentage
+  private notionalUsd = 1000;
+
+  setExchangeFee(exchange: string, marketType: MarketType, fee: TradingFee): void {
+    const fees = this.exchangeFees.get(exchange) || {};
+    fees[marketType] = fee;
+    this.exchangeFees.set(exchange, fees);
+  }
+
+  getExchangeFee(exchange: string, marketType: MarketType): TradingFee {
+    return this.exchangeFees.get(exchange)?.[marketType] || FALLBACK_TRADING_FEE;
+  }
+
+  setPoolFee(poolAddress: string, feePercent: number): void {
+    this.poolFees.set(poolAddress.toLowerCase(), feePercent);
+  }
+
+  getDexFee(price: PriceData): number {
+    if (price.pool) {
+      const override = this.poolFees.get(price.pool.toLowerCase());
+      if (override !== undefined) return override;
+    }
+    return price.poolFee ?? DEFAULT_DEX_FEES[getVenueName(price.exchange)] ?? FALLBACK_DEX_FEE;
+  }
+
+  setWithdrawalFee(ticker: string, exchange: string, network: string, fee: number): void {
+    if (!this.withdrawalFees.has(ticker)) {
+      this.withdrawalFees.set(ticker, new Map());
+    }
+    const byExchange = this.withdrawalFees.get(ticker)!;
+    if (!byExchange.has(exchange)) {
+      byExchange.set(exchange, new Map());
+    }
+    byExchange.get(exchange)!.set(network, fee);
+  }
+
+  //cheapest configured network for moving the token off an exchange
+  getWithdrawalFee(ticker: string, exchange: string): { network: string; amount: number } | null {
+    const networks = this.withdrawalFees.get(ticker)?.get(exchange);
+    if (!networks || networks.size === 0) return null;
+
+    let cheapest: { network: string; amount: number } | null = null;
+    for (const [network, amount] of networks) {
+      if (!cheapest || amount < cheapest.amount) {
+        cheapest = { network, amount };
+      }
+    }
+    return cheapest;
+  }
+
+  setNotional(notionalUsd: number): void {
+    this.notionalUsd = notionalUsd;
+  }
+
+  getNotional(): number {
+    return this.notionalUsd;
+  }
+
+  //arbitrage crosses the spread on both legs, so taker fees apply
+  private getTakerFee(price: PriceData): number {
+    if (price.type === 'dex') return this.getDexFee(price);
+    return this.getExchangeFee(getVenueName(price.exchange), price.type).taker;
+  }
+
+  estimate(ticker: string, buyFrom: PriceData, sellTo: PriceData, buyPrice: number): FeesBreakdown {
+    const buyFeePercent = this.getTakerFee(buyFrom);
+    const sellFeePercent = this.getTakerFee(sellTo);
+
+    //tokens bought on a CEX spot book have to be withdrawn to reach the sell venue
+    let withdrawalFeePercent = 0;
+    let withdrawalFee: FeesBreakdown['withdrawalFee'];
+    const sameVenue = getVenueName(buyFrom.exchange) === getVenueName(sellTo.exchange);
+
+    if (buyFrom.type === 'spot' && sellTo.type !== 'futures' && !sameVenue) {
+      const fee = this.getWithdrawalFee(ticker, getVenueName(buyFrom.exchange));
+      if (fee) {
+        withdrawalFee = fee;
+        withdrawalFeePercent = ((fee.amount * buyPrice) / this.notionalUsd) * 100;
+      }
+    }
+
+    const totalPercent = buyFeePercent + sellFeePercent + withdrawalFeePercent;
+
+    return {
+      buyFeePercent,
+      sellFeePercent,
+      withdrawalFeePercent: Math.round(withdrawalFeePercent * 10000) / 10000,
+      withdrawalFee,
+      totalPercent: Math.round(totalPercent * 10000) / 10000,
+    };
+  }
+}
+
+//single global instance
+export const feeModel = singleton('feeModel', () => new FeeModel());
@@ -0,0 +1,61 @@
+import { FundingDifferential, PriceData } from './types';
+import { feeModel } from './fees';
+import { DEFAULT_FUNDING_INTERVAL_HOURS } from './carry';
+
+//rates are compared on the usual 8h settlement so 1h/4h venues line up
+const REFERENCE_INTERVAL_HOURS = 8;
+const HOURS_PER_YEAR = 365 * 24;
+
+const round = (value: number, digits = 4): number => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+//every ordered pair of perps with a known funding rate, widest differential first
+export function scanFunding(ticker: string, prices: Map<string, PriceData>): FundingDifferential[] {
+  const perps = Array.from(prices.entries()).filter(
+    ([, price]) => price.type === 'futures' && price.fundingRate !== undefined,
+  );
+
+  const differentials: FundingDifferential[] = [];
+
+  for (const [longKey, long] of perps) {
+    for (const [shortKey, short] of perps) {
+      if (longKey === shortKey) continue;
+
+      const longIntervalHours = long.fundingIntervalHours ?? DEFAULT_FUNDING_INTERVAL_HOURS;
+      const shortIntervalHours = short.fundingIntervalHours ?? DEFAULT_FUNDING_INTERVAL_HOURS;
+      const longRatePercent = long.fundingRate! * 100;
+      const shortRatePercent = short.fundingRate! * 100;
+
+      //shorts receive positive funding, longs receive negative funding
+      const differentialPercent =
+        (shortRatePercent / shortIntervalHours - longRatePercent / longIntervalHours) *
+        REFERENCE_INTERVAL_HOURS;
+      if (differentialPercent <= 0) continue;
+
+      const entry = feeModel.estimate(ticker, long, short, long.ask ?? long.price);
+      const nextTimes = [long.nextFundingTime, short.nextFundingTime].filter(
+        (time): time is number => time !== undefined,
+      );
+
+      differentials.push({
+        id: `${ticker}:${longKey}->${shortKey}`,
+        ticker,
+        long,
+        short,
+        longRatePercent: round(longRatePercent),
+        shortRatePercent: round(shortRatePercent),
+        longIntervalHours,
+        shortIntervalHours,
+        differentialPercent: round(differentialPercent),
+        annualizedPercent: round(differentialPercent * (HOURS_PER_YEAR / REFERENCE_INTERVAL_HOURS), 2),
+        feesPercent: round(2 * (entry.buyFeePercent + entry.sellFeePercent), 2),
+        nextFundingTime: nextTimes.length > 0 ? Math.min(...nextTimes) : undefined,
+        timestamp: Date.now(),
+      });
+    }
+  }
+
+  return differentials.sort((a, b) => b.differentialPercent - a.differentialPercent);
+}
@@ -0,0 +1,246 @@
+import { PriceData } from './types';
+import { singleton } from './singleton';
+
+export type HistoryResolution = 'raw' | '1s' | '1m';
+
+export interface HistoryPoint {
+  t: number;
+  value: number;
+}
+
+export interface HistoryBucket {
+  t: number; // bucket start
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  count: number;
+}
+
+//how long each resolution is kept
+export const HISTORY_RETENTION: Record<HistoryResolution, number> = {
+  raw: 5 * 60 * 1000,
+  '1s': 15 * 60 * 1000,
+  '1m': 7 * 24 * 60 * 60 * 1000,
+};
+
+const BUCKET_SIZE = { '1s': 1000, '1m': 60 * 1000 } as const;
+
+//entries per ticker at each resolution, shared by its price and spread series
+//(N venues -> N + N(N-1) series), so wide tickers keep a shorter window
+const MAX_POINTS_PER_TICKER: Record<HistoryResolution, number> = {
+  raw: 20000,
+  '1s': 50000,
+  '1m': 100000,
+};
+//series of venues that stopped updating are only trimmed here
+const PRUNE_INTERVAL = 10 * 1000;
+
+//first index with t >= time, entries are appended in time order
+function lowerBound(entries: { t: number }[], time: number): number {
+  let lo = 0;
+  let hi = entries.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (entries[mid].t < time) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+class TimeSeries {
+  private raw: HistoryPoint[] = [];
+  private seconds: HistoryBucket[] = [];
+  private minutes: HistoryBucket[] = [];
+
+  //limits are the series' share of its ticker's budget at each resolution
+  add(t: number, value: number, limits: Record<HistoryResolution, number>): void {
+    this.raw.push({ t, value });
+    this.addToBuckets(this.seconds, BUCKET_SIZE['1s'], t, value);
+    this.addToBuckets(this.minutes, BUCKET_SIZE['1m'], t, value);
+
+    for (const [entries, resolution] of [
+      [this.raw, 'raw'],
+      [this.seconds, '1s'],
+      [this.minutes, '1m'],
+    ] as const) {
+      if (entries.length > limits[resolution]) {
+        entries.splice(0, entries.length - limits[resolution]);
+      }
+    }
+  }
+
+  private addToBuckets(buckets: HistoryBucket[], size: number, t: number, value: number): void {
+    const start = t - (t % size);
+    const last = buckets[buckets.length - 1];
+
+    if (last && last.t === start) {
+      last.high = Math.max(last.high, value);
+      last.low = Math.min(last.low, value);
+      last.close = value;
+      last.count++;
+    } else {
+      buckets.push({ t: start, open: value, high: value, low: value, close: value, count: 1 });
+    }
+  }
+
+  prune(now: number): void {
+    for (const [entries, resolution] of [
+      [this.raw, 'raw'],
+      [this.seconds, '1s'],
+      [this.minutes, '1m'],
+    ] as const) {
+      const stale = lowerBound(entries, now - HISTORY_RETENTION[resolution]);
+      if (stale > 0) entries.splice(0, stale);
+    }
+  }
+
+  query(from: number, to: number, resolution: HistoryResolution): (HistoryPoint | HistoryBucket)[] {
+    const entries =
+      resolution === 'raw' ? this.raw : resolution === '1s' ? this.seconds : this.minutes;
+    return entries.slice(lowerBound(entries, from), lowerBound(entries, to + 1));
+  }
+
+  isEmpty(): boolean {
+    return this.minutes.length === 0;
+  }
+}
+
+export interface HistoryQueryResult {
+  ticker: string;
+  from: number;
+  to: number;
+  resolution: HistoryResolution;
+  //exchange key -> price series
+  prices: Record<string, (HistoryPoint | HistoryBucket)[]>;
+  //"buyFrom->sellTo" -> gross spread % series (buy at ask, sell into bid)
+  spreads: Record<string, (HistoryPoint | HistoryBucket)[]>;
+}
+
+class HistoryStore {
+  //ticker -> exchange key -> series
+  private prices = new Map<string, Map<string, TimeSeries>>();
+  //ticker -> "buy->sell" -> series
+  private spreads = new Map<string, Map<string, TimeSeries>>();
+
+  constructor() {
+    setInterval(() => this.prune(), PRUNE_INTERVAL);
+  }
+
+  //drops expired points everywhere and series left with nothing in them
+  private prune(): void {
+    const now = Date.now();
+    for (const store of [this.prices, this.spreads]) {
+      for (const [ticker, tickerSeries] of store) {
+        for (const [key, series] of tickerSeries) {
+          series.prune(now);
+          if (series.isEmpty()) tickerSeries.delete(key);
+        }
+        if (tickerSeries.size === 0) store.delete(ticker);
+      }
+    }
+  }
+
+  //when a ticker stops being monitored
+  clear(ticker: string): void {
+    this.prices.delete(ticker);
+    this.spreads.delete(ticker);
+  }
+
+  //even split of the ticker's budget across its series
+  private getLimits(ticker: string): Record<HistoryResolution, number> {
+    const seriesCount = Math.max(
+      1,
+      (this.prices.get(ticker)?.size || 0) + (this.spreads.get(ticker)?.size || 0),
+    );
+    const share = (resolution: HistoryResolution) =>
+      Math.max(1, Math.floor(MAX_POINTS_PER_TICKER[resolution] / seriesCount));
+
+    return { raw: share('raw'), '1s': share('1s'), '1m': share('1m') };
+  }
+
+  //called on every price update with the ticker's full latest-price map
+  record(ticker: string, exchange: string, prices: Map<string, PriceData>): void {
+    const updated = prices.get(exchange);
+    if (!updated) return;
+
+    const now = Date.now();
+    const limits = this.getLimits(ticker);
+    this.getSeries(this.prices, ticker, exchange).add(now, updated.price, limits);
+
+    //only pairs that include the venue that just moved change their spread
+    for (const [other, price] of prices) {
+      if (other === exchange) continue;
+
+      const buy = this.spread(updated, price);
+      if (buy !== null) this.getSeries(this.spreads, ticker, `${exchange}->${other}`).add(now, buy, limits);
+
+      const sell = this.spread(price, updated);
+      if (sell !== null) this.getSeries(this.spreads, ticker, `${other}->${exchange}`).add(now, sell, limits);
+    }
+  }
+
+  private spread(buyFrom: PriceData, sellTo: PriceData): number | null {
+    const buyPrice = buyFrom.ask ?? buyFrom.price;
+    const sellPrice = sellTo.bid ?? sellTo.price;
+    if (!(buyPrice > 0) || !(sellPrice > 0)) return null;
+    return Math.round(((sellPrice - buyPrice) / buyPrice) * 10000) / 100;
+  }
+
+  private getSeries(
+    store: Map<string, Map<string, TimeSeries>>,
+    ticker: string,
+    key: string,
+  ): TimeSeries {
+    if (!store.has(ticker)) {
+      store.set(ticker, new Map());
+    }
+
+    const tickerSeries = store.get(ticker)!;
+    if (!tickerSeries.has(key)) {
+      tickerSeries.set(key, new TimeSeries());
+    }
+    return tickerSeries.get(key)!;
+  }
+
+  //finest resolution that still covers the whole range
+  pickResolution(from: number, now = Date.now()): HistoryResolution {
+    if (from >= now - HISTORY_RETENTION.raw) return 'raw';
+    if (from >= now - HISTORY_RETENTION['1s']) return '1s';
+    return '1m';
+  }
+
+  query(
+    ticker: string,
+    from: number,
+    to: number,
+    resolution: HistoryResolution,
+    filter?: { exchange?: string; pair?: string },
+  ): HistoryQueryResult {
+    const collect = (series: Map<string, TimeSeries> | undefined, only?: string) => {
+      const result: Record<string, (HistoryPoint | HistoryBucket)[]> = {};
+      for (const [key, s] of series || []) {
+        if (only && key !== only) continue;
+        if (s.isEmpty()) continue;
+        result[key] = s.query(from, to, resolution);
+      }
+      return result;
+    };
+
+    return {
+      ticker,
+      from,
+      to,
+      resolution,
+      prices: collect(this.prices.get(ticker), filter?.exchange),
+      spreads: collect(this.spreads.get(ticker), filter?.pair),
+    };
+  }
+
+  getTickers(): string[] {
+    return Array.from(this.prices.keys());
+  }
+}
+
+//single global instance
+export const historyStore = singleton('historyStore', () => new HistoryStore());
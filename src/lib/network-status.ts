@@ -0,0 +1,70 @@
+import { AssetCheck, AssetNetwork, PriceData, TransferStatus } from './types';
+import { getVenueKey } from './fees';
+import { transferModel } from './transfer-time';
+import { singleton } from './singleton';
+
+//deposit/withdraw switches per venue, refreshed with each ticker's collision check
+class NetworkStatusStore {
+  //ticker -> venue key -> networks the venue reports
+  private networks = new Map<string, Map<string, AssetNetwork[]>>();
+
+  update(check: AssetCheck): void {
+    this.networks.set(
+      check.ticker,
+      new Map(Object.entries(check.venues).map(([venue, { networks }]) => [venue, networks])),
+    );
+  }
+
+  clear(ticker: string): void {
+    this.networks.delete(ticker);
+  }
+
+  //tokens bought on buyFrom have to leave it over a network sellTo accepts deposits on
+  evaluate(
+    ticker: string,
+    buyFrom: PriceData,
+    sellTo: PriceData,
+  ): { transferStatus: TransferStatus; commonNetworks: string[]; estimatedTransferSeconds?: number } {
+    //perp against perp settles in margin on each venue, nothing moves; no transfer estimate
+    //either, a zero would put every perp pair above every spot route in the per-minute ranking
+    if (buyFrom.type === 'futures' && sellTo.type === 'futures') {
+      return { transferStatus: 'transferable', commonNetworks: [] };
+    }
+
+    const venues = this.networks.get(ticker);
+    const from = venues?.get(getVenueKey(buyFrom)) || [];
+    const to = venues?.get(getVenueKey(sellTo)) || [];
+    if (from.length === 0 || to.length === 0) {
+      return { transferStatus: 'unknown', commonNetworks: [] };
+    }
+
+    const deposits = new Map(to.map(network => [network.network, network]));
+    const common = from.filter(network => deposits.has(network.network));
+    const commonNetworks = common.map(network => network.network);
+    if (common.length === 0) {
+      return { transferStatus: 'no-common-network', commonNetworks };
+    }
+
+    //flags a venue doesn't report count as enabled
+    const withdrawable = common.filter(network => network.withdrawEnabled !== false);
+    if (withdrawable.length === 0) {
+      return { transferStatus: 'withdraw-suspended', commonNetworks };
+    }
+    const usable = withdrawable.filter(network => deposits.get(network.network)!.depositEnabled !== false);
+    if (usable.length === 0) {
+      return { transferStatus: 'deposit-suspended', commonNetworks };
+    }
+
+    //the fastest open network is the one anyone would use
+    const estimatedTransferSeconds = Math.min(
+      ...usable.map(network =>
+        transferModel.estimate(buyFrom, sellTo, network.network, deposits.get(network.network)!.depositConfirmations),
+      ),
+    );
+
+    return { transferStatus: 'transferable', commonNetworks, estimatedTransferSeconds };
+  }
+}
+
+//single global instance
+export const networkStatusStore = singleton('networkStatusStore', () => new NetworkStatusStore());
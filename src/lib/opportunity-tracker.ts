@@ -0,0 +1,241 @@
+import { ArbitrageOpportunity } from './types';
+import { singleton } from './singleton';
+
+export type OpportunityEventType = 'opened' | 'updated' | 'closed';
+
+//one open -> close run of a buy/sell route
+export interface TrackedOpportunity {
+  id: string; // `${ticker}:${buyKey}->${sellKey}`, the same for every run of the route
+  ticker: string;
+  buyFrom: string; // exchange key
+  sellTo: string; // exchange key
+  openedAt: number;
+  lastSeenAt: number;
+  closedAt?: number;
+  durationMs: number; // time above threshold
+  spread: number; // latest gross spread %
+  netProfitPercent: number; // latest
+  peakSpread: number;
+  peakNetProfitPercent: number;
+  averageSpread: number; // time-weighted
+  averageNetProfitPercent: number; // time-weighted
+  updates: number;
+}
+
+export interface OpportunityEvent {
+  type: OpportunityEventType;
+  opportunity: TrackedOpportunity;
+}
+
+//per-route summary of the closed log
+export interface RouteStats {
+  id: string;
+  ticker: string;
+  buyFrom: string;
+  sellTo: string;
+  count: number;
+  averageDurationMs: number;
+  maxDurationMs: number;
+  averagePeakSpread: number;
+  lastClosedAt: number;
+}
+
+type OpportunityEventCallback = (event: OpportunityEvent) => void;
+
+//closed runs kept in memory, oldest dropped first
+const MAX_CLOSED = 5000;
+
+interface OpenRun {
+  tracked: TrackedOpportunity;
+  //time-weighted sums, weighted by how long each value was current
+  spreadArea: number;
+  netArea: number;
+}
+
+export const getOpportunityId = (ticker: string, buyKey: string, sellKey: string): string =>
+  `${ticker}:${buyKey}->${sellKey}`;
+
+class OpportunityTracker {
+  //ticker -> id -> run
+  private open = new Map<string, Map<string, OpenRun>>();
+  private closed: TrackedOpportunity[] = [];
+  private callbacks = new Set<OpportunityEventCallback>();
+
+  //called with the full opportunity list after every recalculation
+  update(ticker: string, opportunities: ArbitrageOpportunity[], now = Date.now()): void {
+    if (!this.open.has(ticker)) {
+      this.open.set(ticker, new Map());
+    }
+    const runs = this.open.get(ticker)!;
+    const seen = new Set<string>();
+
+    for (const opportunity of opportunities) {
+      const id = opportunity.id;
+      seen.add(id);
+
+      const run = runs.get(id);
+      if (!run) {
+        const [buyFrom, sellTo] = id.slice(ticker.length + 1).split('->');
+        const tracked: TrackedOpportunity = {
+          id,
+          ticker,
+          buyFrom,
+          sellTo,
+          openedAt: now,
+          lastSeenAt: now,
+          durationMs: 0,
+          spread: opportunity.spread,
+          netProfitPercent: opportunity.netProfitPercent,
+          peakSpread: opportunity.spread,
+          peakNetProfitPercent: opportunity.netProfitPercent,
+          averageSpread: opportunity.spread,
+          averageNetProfitPercent: opportunity.netProfitPercent,
+          updates: 1,
+        };
+        runs.set(id, { tracked, spreadArea: 0, netArea: 0 });
+        this.emit('opened', tracked);
+        continue;
+      }
+
+      const { tracked } = run;
+      this.advance(run, now);
+
+      //prices tick far more often than the spread moves at 0.01% resolution
+      if (
+        opportunity.spread === tracked.spread &&
+        opportunity.netProfitPercent === tracked.netProfitPercent
+      ) {
+        continue;
+      }
+
+      tracked.spread = opportunity.spread;
+      tracked.netProfitPercent = opportunity.netProfitPercent;
+      tracked.peakSpread = Math.max(tracked.peakSpread, opportunity.spread);
+      tracked.peakNetProfitPercent = Math.max(tracked.peakNetProfitPercent, opportunity.netProfitPercent);
+      tracked.updates++;
+      this.emit('updated', tracked);
+    }
+
+    for (const [id, run] of runs) {
+      if (!seen.has(id)) this.close(runs, id, run, now);
+    }
+  }
+
+  //fold the time since the last update into the averages at the current values
+  private advance(run: OpenRun, now: number): void {
+    const { tracked } = run;
+    const elapsed = now - tracked.lastSeenAt;
+
+    run.spreadArea += tracked.spread * elapsed;
+    run.netArea += tracked.netProfitPercent * elapsed;
+    tracked.lastSeenAt = now;
+    tracked.durationMs = now - tracked.openedAt;
+
+    if (tracked.durationMs > 0) {
+      tracked.averageSpread = Math.round((run.spreadArea / tracked.durationMs) * 100) / 100;
+      tracked.averageNetProfitPercent = Math.round((run.netArea / tracked.durationMs) * 100) / 100;
+    }
+  }
+
+  private close(runs: Map<string, OpenRun>, id: string, run: OpenRun, now: number): void {
+    this.advance(run, now);
+    run.tracked.closedAt = now;
+    runs.delete(id);
+
+    this.closed.push(run.tracked);
+    if (this.closed.length > MAX_CLOSED) {
+      this.closed.splice(0, this.closed.length - MAX_CLOSED);
+    }
+    this.emit('closed', run.tracked);
+  }
+
+  //close everything for a ticker (when stopping monitoring)
+  closeTicker(ticker: string, now = Date.now()): void {
+    const runs = this.open.get(ticker);
+    if (!runs) return;
+
+    for (const [id, run] of runs) {
+      this.close(runs, id, run, now);
+    }
+    this.open.delete(ticker);
+  }
+
+  private emit(type: OpportunityEventType, opportunity: TrackedOpportunity): void {
+    //listeners get a copy, the tracked object keeps changing while open
+    const event: OpportunityEvent = { type, opportunity: { ...opportunity } };
+    this.callbacks.forEach(callback => {
+      try {
+        callback(event);
+      } catch (error) {
+        console.error('Opportunity event callback error:', error);
+      }
+    });
+  }
+
+  onEvent(callback: OpportunityEventCallback): () => void {
+    this.callbacks.add(callback);
+    return () => {
+      this.callbacks.delete(callback);
+    };
+  }
+
+  getOpen(ticker?: string): TrackedOpportunity[] {
+    const runs = ticker
+      ? Array.from(this.open.get(ticker)?.values() || [])
+      : Array.from(this.open.values()).flatMap(r => Array.from(r.values()));
+    return runs.map(run => ({ ...run.tracked }));
+  }
+
+  //newest first
+  getClosed(ticker?: string, limit = 100): TrackedOpportunity[] {
+    const result: TrackedOpportunity[] = [];
+    for (let i = this.closed.length - 1; i >= 0 && result.length < limit; i--) {
+      if (!ticker || this.closed[i].ticker === ticker) result.push(this.closed[i]);
+    }
+    return result;
+  }
+
+  //which routes stay open long enough to execute, longest average first
+  getRouteStats(ticker?: string): RouteStats[] {
+    const stats = new Map<string, RouteStats & { peakSum: number; durationSum: number }>();
+
+    for (const run of this.closed) {
+      if (ticker && run.ticker !== ticker) continue;
+
+      let entry = stats.get(run.id);
+      if (!entry) {
+        entry = {
+          id: run.id,
+          ticker: run.ticker,
+          buyFrom: run.buyFrom,
+          sellTo: run.sellTo,
+          count: 0,
+          averageDurationMs: 0,
+          maxDurationMs: 0,
+          averagePeakSpread: 0,
+          lastClosedAt: 0,
+          peakSum: 0,
+          durationSum: 0,
+        };
+        stats.set(run.id, entry);
+      }
+
+      entry.count++;
+      entry.durationSum += run.durationMs;
+      entry.peakSum += run.peakSpread;
+      entry.maxDurationMs = Math.max(entry.maxDurationMs, run.durationMs);
+      entry.lastClosedAt = Math.max(entry.lastClosedAt, run.closedAt ?? 0);
+    }
+
+    return Array.from(stats.values())
+      .map(({ peakSum, durationSum, ...entry }) => ({
+        ...entry,
+        averageDurationMs: Math.round(durationSum / entry.count),
+        averagePeakSpread: Math.round((peakSum / entry.count) * 100) / 100,
+      }))
+      .sort((a, b) => b.averageDurationMs - a.averageDurationMs);
+  }
+}
+
+//single global instance
+export const opportunityTracker = singleton('opportunityTracker', () => new OpportunityTracker());
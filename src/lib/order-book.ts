@@ -0,0 +1,135 @@
+import { ExecutableSize, OrderBookLevel, OrderBookUpdate } from './types';
+import { singleton } from './singleton';
+
+export class OrderBook {
+  private bids = new Map<number, number>();
+  private asks = new Map<number, number>();
+  private lastUpdate = 0;
+
+  apply(update: OrderBookUpdate): void {
+    if (update.type === 'snapshot') {
+      this.bids.clear();
+      this.asks.clear();
+    }
+
+    this.applySide(this.bids, update.bids);
+    this.applySide(this.asks, update.asks);
+    this.lastUpdate = update.timestamp;
+  }
+
+  private applySide(side: Map<number, number>, levels: OrderBookLevel[]): void {
+    for (const [price, size] of levels) {
+      if (!(price > 0)) continue;
+      if (size > 0) {
+        side.set(price, size);
+      } else {
+        side.delete(price);
+      }
+    }
+  }
+
+  //best first: bids descending, asks ascending
+  getBids(depth?: number): OrderBookLevel[] {
+    const levels = Array.from(this.bids.entries()).sort((a, b) => b[0] - a[0]);
+    return depth ? levels.slice(0, depth) : levels;
+  }
+
+  getAsks(depth?: number): OrderBookLevel[] {
+    const levels = Array.from(this.asks.entries()).sort((a, b) => a[0] - b[0]);
+    return depth ? levels.slice(0, depth) : levels;
+  }
+
+  getLastUpdate(): number {
+    return this.lastUpdate;
+  }
+
+  isEmpty(): boolean {
+    return this.bids.size === 0 || this.asks.size === 0;
+  }
+}
+
+class OrderBookStore {
+  private books = new Map<string, Map<string, OrderBook>>();
+
+  apply(ticker: string, exchange: string, update: OrderBookUpdate): void {
+    if (!this.books.has(ticker)) {
+      this.books.set(ticker, new Map());
+    }
+
+    const tickerBooks = this.books.get(ticker)!;
+    if (!tickerBooks.has(exchange)) {
+      tickerBooks.set(exchange, new OrderBook());
+    }
+
+    tickerBooks.get(exchange)!.apply(update);
+  }
+
+  get(ticker: string, exchange: string): OrderBook | undefined {
+    const book = this.books.get(ticker)?.get(exchange);
+    return book && !book.isEmpty() ? book : undefined;
+  }
+
+  clearTicker(ticker: string): void {
+    this.books.delete(ticker);
+  }
+}
+
+//single global instance
+export const orderBookStore = singleton('orderBookStore', () => new OrderBookStore());
+
+// Walk the buy venue's asks against the sell venue's bids and return the largest
+// quantity whose VWAP spread stays at or above minSpreadPercent.
+export function computeExecutableSize(
+  asks: OrderBookLevel[],
+  bids: OrderBookLevel[],
+  minSpreadPercent: number,
+): ExecutableSize | null {
+  const t = 1 + minSpreadPercent / 100;
+
+  let quantity = 0;
+  let cost = 0;
+  let proceeds = 0;
+  let i = 0;
+  let j = 0;
+  let askLeft = asks[0]?.[1] ?? 0;
+  let bidLeft = bids[0]?.[1] ?? 0;
+
+  while (i < asks.length && j < bids.length) {
+    const ask = asks[i][0];
+    const bid = bids[j][0];
+    let chunk = Math.min(askLeft, bidLeft);
+
+    //proceeds + chunk*bid >= t * (cost + chunk*ask) must keep holding
+    if (proceeds + chunk * bid < t * (cost + chunk * ask)) {
+      chunk = Math.max(0, (proceeds - t * cost) / (t * ask - bid));
+      quantity += chunk;
+      cost += chunk * ask;
+      proceeds += chunk * bid;
+      break;
+    }
+
+    quantity += chunk;
+    cost += chunk * ask;
+    proceeds += chunk * bid;
+    askLeft -= chunk;
+    bidLeft -= chunk;
+
+    if (askLeft <= 0) {
+      i++;
+      askLeft = asks[i]?.[1] ?? 0;
+    }
+    if (bidLeft <= 0) {
+      j++;
+      bidLeft = bids[j]?.[1] ?? 0;
+    }
+  }
+
+  if (!(quantity > 0)) return null;
+
+  return {
+    quantity,
+    buyVwap: cost / quantity,
+    sellVwap: proceeds / quantity,
+    notional: cost,
+  };
+}
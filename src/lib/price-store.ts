@@ -1,4 +1,10 @@
 import { PriceData, ArbitrageOpportunity } from './types';
+import { feeModel, getVenueKey } from './fees';
+import { networkStatusStore } from './network-status';
+import { computeExecutableSize, orderBookStore } from './order-book';
+import { historyStore } from './history-store';
+import { getOpportunityId, opportunityTracker } from './opportunity-tracker';
+import { singleton } from './singleton';
 
 // const SPREAD_THRESHOLDS = {
 //   1: 0.01,
@@ -8,14 +14,23 @@ import { PriceData, ArbitrageOpportunity } from './types';
 //   10: 0.10
 // } as const;
 
+//placing both legs, added to transfer time so routes with nothing to move don't divide by zero
+const EXECUTION_SECONDS = 30;
+
 type ArbitrageCallback = (ticker: string, opportunities: ArbitrageOpportunity[]) => void;
+type PriceCallback = (ticker: string, price: PriceData) => void;
 
 class PriceStore {
 
   private prices = new Map<string, Map<string, PriceData>>();
   private callbacks = new Map<string, ArbitrageCallback[]>();
+  //listeners across all tickers (SSE stream)
+  private globalCallbacks = new Set<ArbitrageCallback>();
+  private priceCallbacks = new Set<PriceCallback>();
   private lastOpportunities = new Map<string, ArbitrageOpportunity[]>();
   private thresholds = new Map<string, number>();
+  //venues whose ticker is a different asset (see AssetCheck), kept out of arbitrage
+  private excludedVenues = new Map<string, Set<string>>();
   
   updatePrice(ticker: string, exchange: string, price: PriceData): void {
     //initialize maps only when needed
@@ -25,8 +40,12 @@ class PriceStore {
     
     const tickerPrices = this.prices.get(ticker)!;
     tickerPrices.set(exchange, price);
+    historyStore.record(ticker, exchange, tickerPrices);
+    this.notifyPriceCallbacks(ticker, price);
     
     const opportunities = this.calculateArbitrage(ticker, tickerPrices);
+    //lifecycle needs every recalculation, not just the significant ones
+    opportunityTracker.update(ticker, opportunities);
     
     //trigger callbacks only if spread changed significantly
     if (this.hasSignificantChange(ticker, opportunities)) {
@@ -37,78 +56,86 @@ class PriceStore {
   
 
   private calculateArbitrage(ticker: string, prices: Map<string, PriceData>): ArbitrageOpportunity[] {
-    const priceArray = Array.from(prices.values());
+    const priceArray = Array.from(prices.entries());
     if (priceArray.length < 2) return [];
     
     const opportunities: ArbitrageOpportunity[] = [];
     const threshold = this.thresholds.get(ticker) || 1;
+    const excluded = this.excludedVenues.get(ticker);
     
+    //every ordered pair: buy at buyFrom's ask, sell into sellTo's bid
+    for (const [buyKey, buyFrom] of priceArray) {
+      for (const [sellKey, sellTo] of priceArray) {
+        if (buyKey === sellKey) continue;
+        if (excluded && (excluded.has(getVenueKey(buyFrom)) || excluded.has(getVenueKey(sellTo)))) continue;
+        
+        //venues without book data fall back to last/mid price and are marked indicative
+        const buyPrice = buyFrom.ask ?? buyFrom.price;
+        const sellPrice = sellTo.bid ?? sellTo.price;
+        if (!(buyPrice > 0) || !(sellPrice > buyPrice)) continue;
+        
+        const spread = this.calculateSpread(buyPrice, sellPrice);
+        const feesBreakdown = feeModel.estimate(ticker, buyFrom, sellTo, buyPrice);
+        const netProfitPercent = Math.round((spread - feesBreakdown.totalPercent) * 100) / 100;
+        
+        //threshold applies to what is left after fees
+        if (netProfitPercent >= threshold) {
+          //depth both sides can absorb before the VWAP spread drops under threshold + all fees,
+          //withdrawal included (as a percent of the configured notional, 0 on perp legs)
+          const buyBook = orderBookStore.get(ticker, buyFrom.exchange);
+          const sellBook = orderBookStore.get(ticker, sellTo.exchange);
+          const executable =
+            buyBook && sellBook
+              ? computeExecutableSize(
+                  buyBook.getAsks(),
+                  sellBook.getBids(),
+                  threshold + feesBreakdown.totalPercent,
+                ) ?? undefined
+              : undefined;
 
-    let minPrice = priceArray[0];
-    let maxPrice = priceArray[0];
-    
-    for (let i = 1; i < priceArray.length; i++) {
-      const current = priceArray[i];
-      if (current.price < minPrice.price) minPrice = current;
-      if (current.price > maxPrice.price) maxPrice = current;
-    }
-    
-    const spreadPercent = this.calculateSpread(minPrice.price, maxPrice.price);
-    
-    if (spreadPercent >= threshold) {
-      const profit = maxPrice.price - minPrice.price;
-      
-      opportunities.push({
-        buyFrom: minPrice,
-        sellTo: maxPrice,
-        spread: spreadPercent,
-        profit,
-        profitPercent: spreadPercent,
-        timestamp: Date.now()
-      });
-    }
-    
-    //finding all profitable pairs (not just min/max)
-    if (opportunities.length > 0) {
-      for (let i = 0; i < priceArray.length; i++) {
-        for (let j = i + 1; j < priceArray.length; j++) {
-          const spread = this.calculateSpread(priceArray[i].price, priceArray[j].price);
+          const transfer = networkStatusStore.evaluate(ticker, buyFrom, sellTo);
+          const lockupMinutes =
+            transfer.estimatedTransferSeconds !== undefined
+              ? (transfer.estimatedTransferSeconds + EXECUTION_SECONDS) / 60
+              : undefined;
           
-          if (spread >= threshold) {
-            const [lower, higher] = priceArray[i].price < priceArray[j].price 
-              ? [priceArray[i], priceArray[j]]
-              : [priceArray[j], priceArray[i]];
-            
-            //avoid duplicates
-            const exists = opportunities.some(opp => 
-              opp.buyFrom.exchange === lower.exchange && 
-              opp.sellTo.exchange === higher.exchange
-            );
-            
-            if (!exists) {
-              opportunities.push({
-                buyFrom: lower,
-                sellTo: higher,
-                spread,
-                profit: higher.price - lower.price,
-                profitPercent: spread,
-                timestamp: Date.now()
-              });
-            }
-          }
+          opportunities.push({
+            id: getOpportunityId(ticker, buyKey, sellKey),
+            buyFrom,
+            sellTo,
+            buyPrice,
+            sellPrice,
+            spread,
+            profit: sellPrice - buyPrice,
+            profitPercent: spread,
+            netProfitPercent,
+            feesBreakdown,
+            indicative: buyFrom.ask === undefined || sellTo.bid === undefined,
+            executable,
+            //spot against perp only closes when the basis converges, see calculateCarry
+            basisTrade: (buyFrom.type === 'futures') !== (sellTo.type === 'futures'),
+            ...transfer,
+            profitPerMinutePercent:
+              lockupMinutes !== undefined ? Math.round((netProfitPercent / lockupMinutes) * 10000) / 10000 : undefined,
+            timestamp: Date.now()
+          });
         }
       }
     }
     
-    //sort by highest profit first
-    return opportunities.sort((a, b) => b.profit - a.profit);
+    //profit per minute of lock-up first, routes without a transfer estimate after by net profit
+    return opportunities.sort((a, b) => {
+      if (a.profitPerMinutePercent !== undefined && b.profitPerMinutePercent !== undefined) {
+        return b.profitPerMinutePercent - a.profitPerMinutePercent;
+      }
+      if (a.profitPerMinutePercent !== undefined) return -1;
+      if (b.profitPerMinutePercent !== undefined) return 1;
+      return b.netProfitPercent - a.netProfitPercent;
+    });
   }
   
-  private calculateSpread(price1: number, price2: number): number {
-    const higher = Math.max(price1, price2);
-    const lower = Math.min(price1, price2);
-    
-    return Math.round(((higher - lower) / lower) * 10000) / 100;
+  private calculateSpread(buyPrice: number, sellPrice: number): number {
+    return Math.round(((sellPrice - buyPrice) / buyPrice) * 10000) / 100;
   }
   
 
@@ -122,6 +149,12 @@ class PriceStore {
     //no opportunities - no change needed
     if (newOpportunities.length === 0) return false;
     
+    //a route closed and another opened - significant change
+    if (newOpportunities.some((opp, i) => opp.id !== lastOpps[i].id)) return true;
+    
+    //a network was suspended or reopened
+    if (newOpportunities.some((opp, i) => opp.transferStatus !== lastOpps[i].transferStatus)) return true;
+    
     //check if highest spread changed by more than 0.1%
     const newHighest = newOpportunities[0]?.spread || 0;
     const lastHighest = lastOpps[0]?.spread || 0;
@@ -130,7 +163,7 @@ class PriceStore {
   }
   
   private notifyCallbacks(ticker: string, opportunities: ArbitrageOpportunity[]): void {
-    const callbacks = this.callbacks.get(ticker) || [];
+    const callbacks = [...(this.callbacks.get(ticker) || []), ...this.globalCallbacks];
     callbacks.forEach(callback => {
       try {
         callback(ticker, opportunities);
@@ -151,6 +184,32 @@ class PriceStore {
 		};
 	}
   
+  private notifyPriceCallbacks(ticker: string, price: PriceData): void {
+    this.priceCallbacks.forEach(callback => {
+      try {
+        callback(ticker, price);
+      } catch (error) {
+        console.error('Price callback error:', error);
+      }
+    });
+  }
+
+  //opportunity changes for every ticker
+  subscribeAll(callback: ArbitrageCallback): () => void {
+    this.globalCallbacks.add(callback);
+    return () => {
+      this.globalCallbacks.delete(callback);
+    };
+  }
+
+  //every price update for every ticker
+  onPriceUpdate(callback: PriceCallback): () => void {
+    this.priceCallbacks.add(callback);
+    return () => {
+      this.priceCallbacks.delete(callback);
+    };
+  }
+
 	unsubscribe(ticker: string, callback: ArbitrageCallback): void {
 		const callbacks = this.callbacks.get(ticker);
 		if (!callbacks) return;
@@ -168,6 +227,10 @@ class PriceStore {
   setThreshold(ticker: string, threshold: number): void {
     this.thresholds.set(ticker, threshold);
   }
+  
+  setExcludedVenues(ticker: string, venues: string[]): void {
+    this.excludedVenues.set(ticker, new Set(venues));
+  }
 
   getPrices(ticker: string): Map<string, PriceData> {
     return this.prices.get(ticker) || new Map();
@@ -179,10 +242,13 @@ class PriceStore {
   
   //clear all data for a ticker (when stopping monitoring)
   clearTicker(ticker: string): void {
+    opportunityTracker.closeTicker(ticker);
     this.prices.delete(ticker);
     this.callbacks.delete(ticker);
     this.lastOpportunities.delete(ticker);
     this.thresholds.delete(ticker);
+    this.excludedVenues.delete(ticker);
+    historyStore.clear(ticker);
   }
   
   getMonitoredTickers(): string[] {
@@ -192,7 +258,7 @@ class PriceStore {
 
 
 //single global instance
-export const priceStore = new PriceStore();
+export const priceStore = singleton('priceStore', () => new PriceStore());
 
 //STATS
 export const getStoreStats = () => ({
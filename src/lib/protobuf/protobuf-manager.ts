@@ -1,7 +1,48 @@
-import { decodePushDataV3ApiWrapper, PushDataV3ApiWrapper } from './push-wrapper';
+import {
+  decodePushDataV3ApiWrapper,
+  PublicAggreBookTickerV3Api,
+  PublicAggreDealsV3ApiItem,
+  PublicLimitDepthsV3Api,
+  PushDataV3ApiWrapper,
+} from './push-wrapper';
+import { OrderBookUpdate } from '../types';
+
+export interface MEXCPushUpdate {
+  symbol?: string;
+  deal?: PublicAggreDealsV3ApiItem;
+  bookTicker?: PublicAggreBookTickerV3Api;
+  depth?: PublicLimitDepthsV3Api;
+}
 
 class ProtobufManager {
-  handleMEXCMessage(input: ArrayBuffer | Uint8Array) {
+  //depth and price parsing both decode the same frame, remember the last one
+  private lastInput?: ArrayBuffer | Uint8Array;
+  private lastUpdate: MEXCPushUpdate | null = null;
+
+  handleMEXCMessage(input: ArrayBuffer | Uint8Array): MEXCPushUpdate | null {
+    if (input === this.lastInput) return this.lastUpdate;
+
+    this.lastInput = input;
+    this.lastUpdate = this.decodeMEXCMessage(input);
+    return this.lastUpdate;
+  }
+
+  //limit depth pushes are full top-N snapshots
+  handleMEXCDepth(input: ArrayBuffer | Uint8Array): OrderBookUpdate | null {
+    const update = this.handleMEXCMessage(input);
+    const depth = update?.depth;
+    if (!depth) return null;
+
+    return {
+      symbol: update.symbol,
+      type: 'snapshot',
+      bids: (depth.bids || []).map((l) => [parseFloat(l.price), parseFloat(l.quantity)]),
+      asks: (depth.asks || []).map((l) => [parseFloat(l.price), parseFloat(l.quantity)]),
+      timestamp: Date.now(),
+    };
+  }
+
+  private decodeMEXCMessage(input: ArrayBuffer | Uint8Array): MEXCPushUpdate | null {
     try {
       const u8 = input instanceof Uint8Array ? input : new Uint8Array(input);
 
@@ -9,16 +50,18 @@ class ProtobufManager {
       if (wrapper.publicAggreDeals?.deals?.length) {
         const firstDeal = wrapper.publicAggreDeals.deals[0];
         // console.log('Price:', firstDeal.price, 'Quantity:', firstDeal.quantity);
-        return firstDeal;
+        return { symbol: wrapper.symbol, deal: firstDeal };
+      }
+
+      if (wrapper.publicAggreBookTicker?.bidPrice && wrapper.publicAggreBookTicker?.askPrice) {
+        // console.log('Book Ticker:', JSON.stringify(wrapper.publicAggreBookTicker, null, 2));
+        return { symbol: wrapper.symbol, bookTicker: wrapper.publicAggreBookTicker };
       }
-      // if (wrapper.publicAggreDeals) {
-      //   console.log('Aggre Deals:', JSON.stringify(wrapper.publicAggreDeals, null, 2));
-      // }
-
-      // if (wrapper.publicAggreBookTicker) {
-      //   console.log('Book Ticker:', JSON.stringify(wrapper.publicAggreBookTicker, null, 2));
-      // }
-			return null;
+
+      if (wrapper.publicLimitDepths) {
+        return { symbol: wrapper.symbol, depth: wrapper.publicLimitDepths };
+      }
+      return null;
     } catch (err) {
       console.error('Failed to decode wrapper:', err);
       return null;
@@ -22,6 +22,18 @@ const PublicAggreBookTickerV3Api = new protobuf.Type("PublicAggreBookTickerV3Api
   .add(new protobuf.Field("askPrice", 3, "string"))
   .add(new protobuf.Field("askQuantity", 4, "string"));
 
+// Define PublicLimitDepthV3ApiItem
+const PublicLimitDepthV3ApiItem = new protobuf.Type("PublicLimitDepthV3ApiItem")
+  .add(new protobuf.Field("price", 1, "string"))
+  .add(new protobuf.Field("quantity", 2, "string"));
+
+// Define PublicLimitDepthsV3Api
+const PublicLimitDepthsV3Api = new protobuf.Type("PublicLimitDepthsV3Api")
+  .add(new protobuf.Field("asks", 1, "PublicLimitDepthV3ApiItem", "repeated"))
+  .add(new protobuf.Field("bids", 2, "PublicLimitDepthV3ApiItem", "repeated"))
+  .add(new protobuf.Field("eventType", 3, "string"))
+  .add(new protobuf.Field("version", 4, "string"));
+
 // Define the main wrapper
 const PushDataV3ApiWrapper = new protobuf.Type("PushDataV3ApiWrapper")
   .add(new protobuf.Field("channel", 1, "string"))
@@ -29,6 +41,7 @@ const PushDataV3ApiWrapper = new protobuf.Type("PushDataV3ApiWrapper")
   .add(new protobuf.Field("symbolId", 4, "string", "optional"))
   .add(new protobuf.Field("createTime", 5, "int64", "optional"))
   .add(new protobuf.Field("sendTime", 6, "int64", "optional"))
+  .add(new protobuf.Field("publicLimitDepths", 303, "PublicLimitDepthsV3Api", "optional"))
   .add(new protobuf.Field("publicAggreDeals", 314, "PublicAggreDealsV3Api", "optional"))
   .add(new protobuf.Field("publicAggreBookTicker", 315, "PublicAggreBookTickerV3Api", "optional"));
 
@@ -36,6 +49,8 @@ const PushDataV3ApiWrapper = new protobuf.Type("PushDataV3ApiWrapper")
 root.add(PublicAggreDealsV3ApiItem);
 root.add(PublicAggreDealsV3Api);
 root.add(PublicAggreBookTickerV3Api);
+root.add(PublicLimitDepthV3ApiItem);
+root.add(PublicLimitDepthsV3Api);
 root.add(PushDataV3ApiWrapper);
 
 // TypeScript interfaces
@@ -58,12 +73,25 @@ export interface PublicAggreBookTickerV3Api {
   askQuantity: string;
 }
 
+export interface PublicLimitDepthV3ApiItem {
+  price: string;
+  quantity: string;
+}
+
+export interface PublicLimitDepthsV3Api {
+  asks: PublicLimitDepthV3ApiItem[];
+  bids: PublicLimitDepthV3ApiItem[];
+  eventType: string;
+  version: string;
+}
+
 export interface PushDataV3ApiWrapper {
   channel: string;
   symbol?: string;
   symbolId?: string;
   createTime?: number;
   sendTime?: number;
+  publicLimitDepths?: PublicLimitDepthsV3Api;
   publicAggreDeals?: PublicAggreDealsV3Api;
   publicAggreBookTicker?: PublicAggreBookTickerV3Api;
 }
@@ -0,0 +1,14 @@
+//one instance per server process: instrumentation and route handlers are bundled
+//separately, so a plain module-level instance would exist once per bundle
+export function singleton<T>(key: string, create: () => T): T {
+  const globalStore = globalThis as typeof globalThis & { __arbitrageSingletons?: Map<string, unknown> };
+
+  if (!globalStore.__arbitrageSingletons) {
+    globalStore.__arbitrageSingletons = new Map();
+  }
+  if (!globalStore.__arbitrageSingletons.has(key)) {
+    globalStore.__arbitrageSingletons.set(key, create());
+  }
+
+  return globalStore.__arbitrageSingletons.get(key) as T;
+}
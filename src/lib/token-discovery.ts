@@ -1,9 +1,28 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
+import { ethers } from 'ethers';
 import { BinanceExchange } from './exchanges/binance';
+import { BingXExchange } from './exchanges/bingx';
 import { BitGetExchange } from './exchanges/bitget';
+import { BybitExchange } from './exchanges/bybit';
 import { GateExchange } from './exchanges/gate';
 import { MEXCExchange } from './exchanges/mexc';
-import { MarketType, TokenListingInfo } from './types';
+import { OKXExchange } from './exchanges/okx';
+import { OurbitExchange } from './exchanges/ourbit';
+import {
+  AssetCheck,
+  AssetNetwork,
+  DexContractInfo,
+  MarketType,
+  TokenConfig,
+  TokenListingInfo,
+} from './types';
+import { normalizeContract } from './exchanges/networks';
+import { dexPriceFetcher } from './dex/price-fetcher';
+import { TOKEN_LIST } from './dex/token-list';
+import { singleton } from './singleton';
+
+//quote-side depth a pool needs before auto-config adds the chain as a DEX leg
+const MIN_DEX_LIQUIDITY_USD = 10000;
 
 interface ExchangeInstance {
   name: string;
@@ -12,6 +31,9 @@ interface ExchangeInstance {
 }
 
 class TokenDiscoveryService {
+  //latest collision check per ticker
+  private assetChecks = new Map<string, AssetCheck>();
+
   private exchanges: ExchangeInstance[] = [
     {
       name: 'binance',
@@ -33,6 +55,26 @@ class TokenDiscoveryService {
       instance: new BitGetExchange(),
       supportedMarkets: ['spot', 'futures'],
     },
+    {
+      name: 'okx',
+      instance: new OKXExchange(),
+      supportedMarkets: ['spot', 'futures'],
+    },
+    {
+      name: 'bybit',
+      instance: new BybitExchange(),
+      supportedMarkets: ['spot', 'futures'],
+    },
+    {
+      name: 'ourbit',
+      instance: new OurbitExchange(),
+      supportedMarkets: ['spot', 'futures'],
+    },
+    {
+      name: 'bingx',
+      instance: new BingXExchange(),
+      supportedMarkets: ['spot', 'futures'],
+    },
   ];
 
   async discoverToken(ticker: string): Promise<TokenListingInfo> {
@@ -42,6 +84,8 @@ class TokenDiscoveryService {
       ticker,
       exchanges: {},
       dexAvailability: {},
+      dexContracts: {},
+      assetCheck: { ticker, majority: {}, venues: {}, mismatched: [], checkedAt: 0 },
     };
 
     // Check all exchanges in parallel
@@ -60,31 +104,170 @@ class TokenDiscoveryService {
       }
     });
 
-    const dexPromise = this.checkDEXAvailability(ticker);
+    const networksPromise = this.getVenueNetworks(ticker);
+
+    await Promise.allSettled([...exchangePromises, networksPromise]);
 
-    await Promise.allSettled([...exchangePromises, dexPromise]);
+    const venueNetworks = await networksPromise;
+    const dex = await this.checkDEXAvailability(ticker, venueNetworks);
+    result.dexAvailability = dex.availability;
+    result.dexContracts = dex.contracts;
 
-    result.dexAvailability = await dexPromise;
+    //resolved DEX contracts take part in the collision check like any other venue
+    const sources = { ...venueNetworks };
+    for (const [chain, contract] of Object.entries(dex.contracts)) {
+      sources[`${chain}-dex`] = [this.getDexNetwork(chain, contract.address)];
+    }
+    result.assetCheck = this.buildAssetCheck(ticker, sources);
+    this.assetChecks.set(ticker, result.assetCheck);
 
     return result;
   }
 
-  // PLACEHOLDER !!!!!!!!!!!! RETURNS FALSE
-  private async checkDEXAvailability(ticker: string): Promise<{ [chain: string]: boolean }> {
-    const chains = ['bsc', 'eth', 'polygon', 'arbitrum'];
-    const availability: { [chain: string]: boolean } = {};
+  //contract per chain from the local token list, then the contract most exchanges report; an
+  //address only counts as available when its deepest pool clears MIN_DEX_LIQUIDITY_USD
+  private async checkDEXAvailability(
+    ticker: string,
+    venueNetworks: Record<string, AssetNetwork[] | null>,
+  ): Promise<{
+    availability: TokenListingInfo['dexAvailability'];
+    contracts: TokenListingInfo['dexContracts'];
+  }> {
+    const chains = dexPriceFetcher.getSupportedChains();
+    const availability: TokenListingInfo['dexAvailability'] = {};
+    const contracts: TokenListingInfo['dexContracts'] = {};
+    const majority = this.findMajority(venueNetworks);
 
     const promises = chains.map(async (chain) => {
+      availability[chain] = false;
+
+      const listed = TOKEN_LIST[ticker.toUpperCase()]?.[chain];
+      const address = listed || majority[chain];
+      if (!address || !ethers.isAddress(address)) return;
+
+      const info: DexContractInfo = {
+        address: ethers.getAddress(address.toLowerCase()),
+        source: listed ? 'token-list' : 'exchange',
+      };
+      contracts[chain] = info;
+
       try {
-        availability[chain] = false;
+        const pool = await dexPriceFetcher.findDeepestPool(chain, info.address);
+        if (!pool) return;
+
+        info.pool = pool.address;
+        info.poolVersion = pool.version;
+        info.depthUsd = Math.round(pool.depthUsd);
+        availability[chain] = pool.depthUsd >= MIN_DEX_LIQUIDITY_USD;
       } catch (error) {
         console.error(`Failed to check ${chain} for ${ticker}:`, error);
-        availability[chain] = false;
       }
     });
 
     await Promise.allSettled(promises);
-    return availability;
+    return { availability, contracts };
+  }
+
+  //networks and contracts every exchange reports for the asset, null where it can't tell
+  private async getVenueNetworks(ticker: string): Promise<Record<string, AssetNetwork[] | null>> {
+    const venueNetworks: Record<string, AssetNetwork[] | null> = {};
+
+    await Promise.allSettled(
+      this.exchanges.map(async (exchange) => {
+        try {
+          venueNetworks[exchange.name] = await exchange.instance.getAssetNetworks(ticker);
+        } catch (error) {
+          console.error(`Failed to fetch ${exchange.name} networks for ${ticker}:`, error);
+          venueNetworks[exchange.name] = null;
+        }
+      }),
+    );
+
+    return venueNetworks;
+  }
+
+  //network -> contract reported by strictly more sources than any other contract
+  private findMajority(sources: Record<string, AssetNetwork[] | null>): AssetCheck['majority'] {
+    const tally = new Map<string, Map<string, number>>();
+
+    for (const networks of Object.values(sources)) {
+      for (const { network, contract } of networks || []) {
+        if (!contract) continue;
+        if (!tally.has(network)) tally.set(network, new Map());
+        const counts = tally.get(network)!;
+        const key = normalizeContract(contract);
+        counts.set(key, (counts.get(key) || 0) + 1);
+      }
+    }
+
+    const majority: AssetCheck['majority'] = {};
+    for (const [network, counts] of tally) {
+      const [first, second] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+      if (!second || first[1] > second[1]) {
+        majority[network] = first[0];
+      }
+    }
+    return majority;
+  }
+
+  //a venue is mismatched when it disagrees with the majority on every network it can be
+  //compared on, venues reporting nothing comparable stay unverified
+  private buildAssetCheck(ticker: string, sources: Record<string, AssetNetwork[] | null>): AssetCheck {
+    const majority = this.findMajority(sources);
+    const venues: AssetCheck['venues'] = {};
+
+    for (const [venue, networks] of Object.entries(sources)) {
+      const comparable = (networks || []).filter(
+        (network) => network.contract && majority[network.network],
+      );
+      const conflicts = comparable
+        .filter((network) => normalizeContract(network.contract!) !== majority[network.network])
+        .map((network) => network.network);
+
+      venues[venue] = {
+        status:
+          comparable.length === 0
+            ? 'unverified'
+            : conflicts.length === comparable.length
+              ? 'mismatch'
+              : 'match',
+        networks: networks || [],
+        conflicts,
+      };
+    }
+
+    return {
+      ticker,
+      majority,
+      venues,
+      mismatched: Object.keys(venues).filter((venue) => venues[venue].status === 'mismatch'),
+      checkedAt: Date.now(),
+    };
+  }
+
+  //compares the contracts exchanges report for the ticker with the configured DEX contracts,
+  //the result is kept for the status API
+  async checkAssetCollisions(ticker: string, dexContracts: TokenConfig['dexContracts']): Promise<AssetCheck> {
+    const sources = await this.getVenueNetworks(ticker);
+
+    for (const [chain, contract] of Object.entries(dexContracts)) {
+      if (contract) {
+        sources[`${chain}-dex`] = [this.getDexNetwork(chain, contract)];
+      }
+    }
+
+    const check = this.buildAssetCheck(ticker, sources);
+    this.assetChecks.set(ticker, check);
+    return check;
+  }
+
+  //a DEX leg is the chain itself, tokens can always move on and off it
+  private getDexNetwork(chain: string, contract: string): AssetNetwork {
+    return { network: chain, contract, depositEnabled: true, withdrawEnabled: true };
+  }
+
+  getAssetCheck(ticker: string): AssetCheck | undefined {
+    return this.assetChecks.get(ticker);
   }
 
   // Get available exchanges for a ticker with their supported markets
@@ -146,15 +329,28 @@ class TokenDiscoveryService {
     // Check DEX availability
     const dexContracts: { [chain: string]: string | undefined } = {};
     for (const [chain, available] of Object.entries(discovery.dexAvailability)) {
+      const contract = discovery.dexContracts[chain];
+
       if (available) {
-        recommendations.push(`✅ DEX liquidity found on ${chain}`);
-        // You would set actual contract addresses here
-        // dexContracts[chain] = contractAddress;
+        dexContracts[chain] = contract.address;
+        recommendations.push(
+          `✅ DEX liquidity found on ${chain}: $${contract.depthUsd?.toLocaleString()} in ${contract.poolVersion} pool`,
+        );
+      } else if (contract) {
+        recommendations.push(
+          `❌ ${chain} contract ${contract.address} has no pool with $${MIN_DEX_LIQUIDITY_USD.toLocaleString()}+ liquidity`,
+        );
       } else {
-        recommendations.push(`❌ No DEX liquidity found on ${chain}`);
+        recommendations.push(`❌ No ${chain} contract found for ${ticker}`);
       }
     }
 
+    for (const venue of discovery.assetCheck.mismatched) {
+      recommendations.push(
+        `⚠️  ${venue} lists a different ${ticker} contract than the other venues, excluded from arbitrage`,
+      );
+    }
+
     if (exchanges.length === 0) {
       recommendations.push(
         `⚠️  No exchanges found for ${ticker}. Please verify the ticker symbol.`,
@@ -203,4 +399,5 @@ class TokenDiscoveryService {
   }
 }
 
-export const tokenDiscovery = new TokenDiscoveryService();
+//single global instance
+export const tokenDiscovery = singleton('tokenDiscovery', () => new TokenDiscoveryService());
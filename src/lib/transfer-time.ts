@@ -0,0 +1,93 @@
+import { PriceData } from './types';
+import { getVenueName } from './fees';
+import { singleton } from './singleton';
+
+//average block time per network, seconds
+const BLOCK_TIMES: Record<string, number> = {
+  eth: 12,
+  bsc: 3,
+  polygon: 2,
+  arbitrum: 0.25,
+  optimism: 2,
+  base: 2,
+  sol: 0.4,
+  trx: 3,
+  ton: 5,
+  btc: 600,
+};
+
+//deposit confirmations exchanges typically wait for, when the venue doesn't report its own
+const DEFAULT_CONFIRMATIONS: Record<string, number> = {
+  eth: 12,
+  bsc: 15,
+  polygon: 128,
+  arbitrum: 20,
+  optimism: 20,
+  base: 20,
+  sol: 32,
+  trx: 19,
+  ton: 1,
+  btc: 2,
+};
+
+//time from withdrawal request to broadcast, manual review on slower venues
+const DEFAULT_PROCESSING_SECONDS: Record<string, number> = {
+  binance: 60,
+  okx: 60,
+  bybit: 120,
+  bitget: 120,
+  gate: 180,
+  mexc: 180,
+  bingx: 180,
+  ourbit: 300,
+};
+
+const FALLBACK_BLOCK_TIME = 15;
+const FALLBACK_CONFIRMATIONS = 20;
+const FALLBACK_PROCESSING_SECONDS = 180;
+
+//expected seconds for tokens to leave one venue and be credited on another over a network
+class TransferModel {
+  private processingSeconds = new Map<string, number>(Object.entries(DEFAULT_PROCESSING_SECONDS));
+  //exchange -> network -> confirmations, overrides what the venue reports
+  private confirmations = new Map<string, Map<string, number>>();
+
+  setProcessingSeconds(exchange: string, seconds: number): void {
+    this.processingSeconds.set(exchange, seconds);
+  }
+
+  getProcessingSeconds(exchange: string): number {
+    return this.processingSeconds.get(exchange) ?? FALLBACK_PROCESSING_SECONDS;
+  }
+
+  setConfirmations(exchange: string, network: string, confirmations: number): void {
+    if (!this.confirmations.has(exchange)) {
+      this.confirmations.set(exchange, new Map());
+    }
+    this.confirmations.get(exchange)!.set(network, confirmations);
+  }
+
+  getConfirmations(exchange: string, network: string, reported?: number): number {
+    return (
+      this.confirmations.get(exchange)?.get(network) ??
+      reported ??
+      DEFAULT_CONFIRMATIONS[network] ??
+      FALLBACK_CONFIRMATIONS
+    );
+  }
+
+  //withdrawal processing on the buy venue, then block time x the sell venue's confirmations;
+  //a DEX leg is the wallet itself, sending is immediate and a swap needs one block
+  estimate(buyFrom: PriceData, sellTo: PriceData, network: string, reportedConfirmations?: number): number {
+    const processing = buyFrom.type === 'dex' ? 0 : this.getProcessingSeconds(getVenueName(buyFrom.exchange));
+    const confirmations =
+      sellTo.type === 'dex'
+        ? 1
+        : this.getConfirmations(getVenueName(sellTo.exchange), network, reportedConfirmations);
+
+    return Math.round(processing + (BLOCK_TIMES[network] ?? FALLBACK_BLOCK_TIME) * confirmations);
+  }
+}
+
+//single global instance
+export const transferModel = singleton('transferModel', () => new TransferModel());
@@ -7,8 +7,45 @@ export interface PriceData {
   timestamp: number;
   type: MarketType;
   volume?: number;
+  // top of book, from book-ticker streams where the venue provides them
+  bid?: number;
+  ask?: number;
+  bidSize?: number;
+  askSize?: number;
+  // DEX quotes only
+  pool?: string;
+  poolFee?: number; // percent
+  sizes?: DexSizeQuote[]; // executable prices per trade size, bid/ask are taken at the fee model's notional
+  blockNumber?: number; // block the pool state was read at
+  // perpetual futures only, rates are per funding interval as a fraction (0.0001 = 0.01%)
+  fundingRate?: number; // rate settling at nextFundingTime
+  predictedFundingRate?: number; // venue's estimate for the interval after that
+  nextFundingTime?: number;
+  fundingIntervalHours?: number;
+  markPrice?: number;
+  indexPrice?: number;
 }
 
+//what a swap of notionalUsd fills at, before the pool fee
+export interface DexSizeQuote {
+  notionalUsd: number;
+  buyPrice: number;
+  sellPrice: number;
+  buyImpactPercent: number; // vs the pool's mid price
+  sellImpactPercent: number;
+}
+
+export type FundingField =
+  | 'fundingRate'
+  | 'predictedFundingRate'
+  | 'nextFundingTime'
+  | 'fundingIntervalHours'
+  | 'markPrice'
+  | 'indexPrice';
+
+//funding/mark frames from venues that stream them apart from the ticker
+export type FundingUpdate = Pick<PriceData, FundingField> & { symbol?: string };
+
 export interface TokenConfig {
   ticker: string;
   exchanges: {
@@ -22,15 +59,99 @@ export interface TokenConfig {
     arbitrum?: string;
   };
   thresholdPercent: number;
+  //keep venues whose contract differs from the majority in arbitrage, see AssetCheck
+  allowMismatchedVenues?: boolean;
 }
 
 export interface ArbitrageOpportunity {
+  id: string; // stable per ticker and buy/sell exchange key pair
   buyFrom: PriceData;
   sellTo: PriceData;
+  buyPrice: number; // buyFrom ask (or last/mid without book data)
+  sellPrice: number; // sellTo bid (or last/mid without book data)
   spread: number;
   profit: number;
   timestamp: number;
   profitPercent: number;
+  netProfitPercent: number; // profitPercent minus feesBreakdown.totalPercent
+  feesBreakdown: FeesBreakdown;
+  indicative: boolean; // true when either leg has no bid/ask
+  executable?: ExecutableSize; // only when both legs have a local order book
+  basisTrade: boolean; // one leg spot, the other a perp
+  transferStatus: TransferStatus;
+  commonNetworks: string[]; // networks both venues list for the asset
+  estimatedTransferSeconds?: number; // fastest open common network, only for transferable routes that move tokens
+  profitPerMinutePercent?: number; // netProfitPercent per minute of capital lock-up, routes rank by it
+}
+
+//whether tokens bought on the buy venue can reach the sell venue right now
+export type TransferStatus =
+  | 'transferable'
+  | 'deposit-suspended' // sell venue has deposits off on every common network
+  | 'withdraw-suspended' // buy venue has withdrawals off on every common network
+  | 'no-common-network'
+  | 'unknown'; // a venue doesn't publish its network status
+
+//cash-and-carry: long the spot leg, short the perp, collect funding while the basis converges
+export interface CarryOpportunity {
+  id: string; // `${ticker}:${spotKey}->${perpKey}`
+  spot: PriceData;
+  perp: PriceData;
+  spotPrice: number; // spot ask (or last/mid without book data)
+  perpPrice: number; // perp bid (or last/mid without book data)
+  basisPercent: number; // (perpPrice - spotPrice) / spotPrice
+  fundingRatePercent?: number; // settling next, paid to shorts when positive
+  predictedFundingRatePercent?: number;
+  annualizedFundingPercent?: number;
+  fundingIntervalHours: number;
+  nextFundingTime?: number;
+  feesPercent: number; // taker fees to open and close both legs
+  expectedCarryPercent: number; // next funding + basis - fees
+  sameVenue: boolean;
+  indicative: boolean; // true when either leg has no bid/ask
+  timestamp: number;
+}
+
+//long the perp paying less funding, short the one paying more
+export interface FundingDifferential {
+  id: string; // `${ticker}:${longKey}->${shortKey}`
+  ticker: string;
+  long: PriceData;
+  short: PriceData;
+  longRatePercent: number; // per the venue's own interval
+  shortRatePercent: number;
+  longIntervalHours: number;
+  shortIntervalHours: number;
+  differentialPercent: number; // short minus long, both scaled to 8h
+  annualizedPercent: number;
+  feesPercent: number; // taker fees to open and close both legs
+  nextFundingTime?: number; // earliest of the two legs
+  timestamp: number;
+}
+
+export interface ExecutableSize {
+  quantity: number; // base units that keep net profit above threshold
+  buyVwap: number;
+  sellVwap: number;
+  notional: number; // quantity * buyVwap, in quote currency
+}
+
+export type OrderBookLevel = [price: number, size: number];
+
+export interface OrderBookUpdate {
+  type: 'snapshot' | 'delta'; // delta levels with size 0 remove the price
+  bids: OrderBookLevel[];
+  asks: OrderBookLevel[];
+  timestamp: number;
+  symbol?: string; // venue symbol, when the frame carries one
+}
+
+export interface FeesBreakdown {
+  buyFeePercent: number;
+  sellFeePercent: number;
+  withdrawalFeePercent: number;
+  withdrawalFee?: { network: string; amount: number };
+  totalPercent: number;
 }
 
 export interface ExchangeConfig {
@@ -64,6 +185,44 @@ export interface TokenListingInfo {
   dexAvailability: {
     [chain: string]: boolean;
   };
+  //resolved contract per chain, present whenever an address was found even without liquidity
+  dexContracts: {
+    [chain: string]: DexContractInfo;
+  };
+  assetCheck: AssetCheck;
+}
+
+//a deposit/withdraw network an exchange reports for an asset
+export interface AssetNetwork {
+  network: string; // DEX chain key (eth, bsc, ...) where known, else the venue's code lowercased
+  contract?: string;
+  depositEnabled?: boolean;
+  withdrawEnabled?: boolean;
+  depositConfirmations?: number; // blocks before a deposit is credited
+}
+
+//whether every venue's ticker is the same asset, judged by the contracts they report
+export interface AssetCheck {
+  ticker: string;
+  majority: { [network: string]: string }; // contract most sources agree on
+  venues: {
+    //exchange name, or `${chain}-dex` for configured DEX contracts
+    [venue: string]: {
+      status: 'match' | 'mismatch' | 'unverified';
+      networks: AssetNetwork[];
+      conflicts: string[]; // networks where the contract differs from the majority
+    };
+  };
+  mismatched: string[];
+  checkedAt: number;
+}
+
+export interface DexContractInfo {
+  address: string;
+  source: 'token-list' | 'exchange';
+  pool?: string; // deepest V2/V3 pool against the chain's quote assets
+  poolVersion?: 'v2' | 'v3';
+  depthUsd?: number;
 }
 
 // WebSocket message types for different exchanges
@@ -73,6 +232,30 @@ export type BinanceTickerMessage = {
   c: string;  // close price
   v: string;  // volume
   E: number;  // event time
+  b?: string; // best bid price (spot only)
+  B?: string; // best bid qty (spot only)
+  a?: string; // best ask price (spot only)
+  A?: string; // best ask qty (spot only)
+};
+
+export type BinanceBookTickerMessage = {
+  e?: 'bookTicker'; // futures only
+  s: string;  // symbol
+  b: string;  // best bid price
+  B: string;  // best bid qty
+  a: string;  // best ask price
+  A: string;  // best ask qty
+  E?: number; // event time (futures only)
+};
+
+export type BinanceMarkPriceMessage = {
+  e: 'markPriceUpdate'; // futures only
+  E: number;  // event time
+  s: string;  // symbol
+  p: string;  // mark price
+  i: string;  // index price
+  r: string;  // funding rate settling at T
+  T: number;  // next funding time
 };
 
 export type MEXCSpotTickerMessage = {
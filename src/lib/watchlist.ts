@@ -0,0 +1,166 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { promises as fs } from 'fs';
+import path from 'path';
+import { MarketType, TokenConfig } from './types';
+import { ExchangeFactory } from './exchanges';
+import { connectionManager } from './connection-manager';
+import { singleton } from './singleton';
+
+const WATCHLIST_PATH =
+  process.env.WATCHLIST_PATH || path.join(process.cwd(), 'data', 'watchlist.json');
+
+const DEX_CHAINS = ['bsc', 'eth', 'polygon', 'arbitrum'] as const;
+
+interface WatchlistFile {
+  version: 1;
+  tokens: TokenConfig[];
+}
+
+//checks and normalizes a TokenConfig coming from an API body, error string on bad input
+export function parseTokenConfig(input: any): { config?: TokenConfig; error?: string } {
+  if (!input || typeof input.ticker !== 'string' || !input.ticker.trim()) {
+    return { error: 'Ticker symbol is required' };
+  }
+
+  const exchanges: TokenConfig['exchanges'] = [];
+  for (const exchange of Array.isArray(input.exchanges) ? input.exchanges : []) {
+    if (!exchange || !ExchangeFactory.isExchangeSupported(exchange.name)) {
+      return { error: `Unsupported exchange: ${exchange?.name}` };
+    }
+
+    const supported = ExchangeFactory.getExchangeMarkets(exchange.name);
+    const markets = (Array.isArray(exchange.markets) ? exchange.markets : []).filter(
+      (market: MarketType) => supported.includes(market),
+    );
+    if (markets.length === 0) {
+      return { error: `No supported markets given for ${exchange.name}` };
+    }
+
+    exchanges.push({ name: exchange.name.toLowerCase(), markets });
+  }
+
+  const dexContracts: TokenConfig['dexContracts'] = {};
+  for (const chain of DEX_CHAINS) {
+    const contract = input.dexContracts?.[chain];
+    if (typeof contract === 'string' && contract.trim()) {
+      dexContracts[chain] = contract.trim();
+    }
+  }
+
+  if (exchanges.length === 0 && Object.keys(dexContracts).length === 0) {
+    return { error: 'At least one exchange or DEX contract is required' };
+  }
+
+  const thresholdPercent = Number(input.thresholdPercent ?? 1);
+  if (!Number.isFinite(thresholdPercent) || thresholdPercent < 0) {
+    return { error: 'thresholdPercent must be a non-negative number' };
+  }
+
+  return {
+    config: {
+      ticker: input.ticker.trim().toUpperCase(),
+      exchanges,
+      dexContracts,
+      thresholdPercent,
+      allowMismatchedVenues: input.allowMismatchedVenues === true,
+    },
+  };
+}
+
+//watchlist persisted as a JSON file, keyed by ticker
+class WatchlistStore {
+  private tokens = new Map<string, TokenConfig>();
+  private loading?: Promise<void>;
+  //writes are chained so two quick edits never interleave on disk
+  private writing: Promise<void> = Promise.resolve();
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          const raw = await fs.readFile(WATCHLIST_PATH, 'utf8');
+          const file: WatchlistFile = JSON.parse(raw);
+
+          for (const token of file.tokens || []) {
+            const { config, error } = parseTokenConfig(token);
+            if (config) {
+              this.tokens.set(config.ticker, config);
+            } else {
+              console.warn(`Skipping invalid watchlist entry ${token?.ticker}: ${error}`);
+            }
+          }
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            console.error('Failed to read watchlist:', error);
+          }
+        }
+      })();
+    }
+    return this.loading;
+  }
+
+  private persist(): Promise<void> {
+    const file: WatchlistFile = { version: 1, tokens: Array.from(this.tokens.values()) };
+
+    //chain from a settled write so one failure doesn't reject every later save
+    this.writing = this.writing.catch(() => {}).then(async () => {
+      //write then rename so a crash never leaves a half-written file
+      const tmpPath = `${WATCHLIST_PATH}.tmp`;
+      await fs.mkdir(path.dirname(WATCHLIST_PATH), { recursive: true });
+      await fs.writeFile(tmpPath, JSON.stringify(file, null, 2), 'utf8');
+      await fs.rename(tmpPath, WATCHLIST_PATH);
+    });
+
+    return this.writing;
+  }
+
+  async list(): Promise<TokenConfig[]> {
+    await this.load();
+    return Array.from(this.tokens.values());
+  }
+
+  async get(ticker: string): Promise<TokenConfig | undefined> {
+    await this.load();
+    return this.tokens.get(ticker.toUpperCase());
+  }
+
+  async save(config: TokenConfig): Promise<void> {
+    await this.load();
+    this.tokens.set(config.ticker, config);
+    await this.persist();
+  }
+
+  async remove(ticker: string): Promise<boolean> {
+    await this.load();
+    const removed = this.tokens.delete(ticker.toUpperCase());
+    if (removed) {
+      await this.persist();
+    }
+    return removed;
+  }
+}
+
+//single global instance
+export const watchlistStore = singleton('watchlistStore', () => new WatchlistStore());
+
+//start monitoring every saved token, called once on server boot
+export async function restoreWatchlist(): Promise<void> {
+  const restored = singleton('watchlistRestored', () => ({ done: false }));
+  if (restored.done) return;
+  restored.done = true;
+
+  const tokens = await watchlistStore.list();
+  if (tokens.length === 0) return;
+
+  console.log(`📋 Restoring ${tokens.length} watchlist token(s)`);
+
+  const results = await Promise.allSettled(
+    tokens.map(config => connectionManager.startMonitoring(config)),
+  );
+
+  results.forEach((result, i) => {
+    if (result.status === 'rejected') {
+      console.error(`❌ Failed to restore ${tokens[i].ticker}:`, result.reason);
+    }
+  });
+}